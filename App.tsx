@@ -5,6 +5,8 @@ import Tuner from './components/Tuner';
 import Metronome from './components/Metronome';
 import EarTraining from './components/EarTraining';
 import Keyboard from './components/Keyboard';
+import MixerPanel from './components/MixerPanel';
+import { setMasterVolume } from './utils/audioEngine';
 import { Tab } from './types';
 
 const TABS = [
@@ -25,6 +27,8 @@ const App: React.FC = () => {
   const navRef = useRef<HTMLDivElement>(null);
   const [indicatorStyle, setIndicatorStyle] = useState({ left: 0, width: 0 });
 
+  useEffect(() => { setMasterVolume(volume); }, [volume]);
+
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
     localStorage.setItem('earlessly-theme', theme);
@@ -104,6 +108,7 @@ const App: React.FC = () => {
                 className="w-16 h-1 cursor-pointer"
               />
             </div>
+            <MixerPanel />
             <button
               onClick={toggleTheme}
               className="w-8 h-8 rounded-lg flex items-center justify-center cursor-pointer transition-colors shrink-0"
@@ -126,10 +131,10 @@ const App: React.FC = () => {
             <Metronome volume={volume} setVolume={setVolume} />
           </div>
           <div className={activeTab === Tab.EAR_TRAINING ? 'block h-full' : 'hidden h-full'}>
-            <EarTraining volume={volume} />
+            <EarTraining />
           </div>
           <div className={activeTab === Tab.KEYBOARD ? 'block h-full' : 'hidden h-full'}>
-            <Keyboard isActive={activeTab === Tab.KEYBOARD} volume={volume} setVolume={setVolume} />
+            <Keyboard isActive={activeTab === Tab.KEYBOARD} />
           </div>
         </div>
       </main>
@@ -0,0 +1,65 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Brain } from 'lucide-react';
+import { AdaptiveScope, MAX_BOX, getAdaptiveBoxes, resetAdaptive, subscribeAdaptive } from '../utils/adaptiveScheduler';
+
+interface Props {
+  scope: AdaptiveScope;
+  items: string[];   // the items currently being drilled; box counts cover only these
+  enabled: boolean;
+  onChange: (enabled: boolean) => void;
+}
+
+const AdaptiveToggle: React.FC<Props> = ({ scope, items, enabled, onChange }) => {
+  const [version, setVersion] = useState(0);
+  useEffect(() => subscribeAdaptive(() => setVersion(v => v + 1)), []);
+
+  const handleReset = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (confirm('確定要重設此項目的熟練度紀錄嗎？')) resetAdaptive(scope);
+  };
+
+  // Items per Leitner box, weakest first
+  const itemsKey = items.join('\n');
+  const boxes = useMemo(() => Object.values(getAdaptiveBoxes(scope, items)), [scope, itemsKey, version]);
+  const counts = Array.from({ length: MAX_BOX }, (_, i) => boxes.filter(b => b === i + 1).length);
+
+  return (
+    <div className="card-inner rounded-xl overflow-hidden transition-all duration-200" style={enabled ? { borderColor: 'rgba(200,149,108,0.3)' } : {}}>
+      <div className="p-3 flex items-center justify-between cursor-pointer" onClick={() => onChange(!enabled)}>
+        <div className="flex items-center gap-2">
+          <div className="p-1.5 rounded-lg transition-all duration-200" style={enabled ? { background: 'var(--primary)', color: 'white' } : { background: 'var(--input-bg)', color: 'var(--tx-muted)' }}>
+            <Brain size={14} />
+          </div>
+          <div>
+            <div className={`font-bold text-xs transition-colors ${enabled ? 'text-tx' : 'text-tx-muted'}`}>自適應出題</div>
+            <div className="text-[10px] text-tx-muted">優先練習常答錯、久未複習的項目</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {enabled && (
+            <button onClick={handleReset} className="text-[10px] text-tx-muted hover:text-tx-sub cursor-pointer">重設</button>
+          )}
+          <div className={`toggle-track ${enabled ? 'active' : ''}`}>
+            <div className="toggle-thumb"></div>
+          </div>
+        </div>
+      </div>
+      {enabled && boxes.length > 0 && (
+        <div className="px-3 pb-3 space-y-1">
+          <div className="flex gap-1">
+            {counts.map((count, i) => (
+              <div key={i} className="flex-1 text-center rounded-md py-1" style={{ background: 'var(--input-bg)', opacity: count > 0 ? 1 : 0.5 }}>
+                <div className="text-[11px] font-bold text-tx-sub">{count}</div>
+                <div className="text-[9px] text-tx-muted">盒 {i + 1}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[9px] text-tx-muted">熟練度：盒 1 為常錯項目，盒 {MAX_BOX} 為已熟練</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdaptiveToggle;
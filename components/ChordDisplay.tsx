@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { NOTE_STRINGS } from '../utils/audioEngine';
+import { ChordMatch } from '../utils/chordDetection';
+import { chordIntervals } from '../utils/chords';
+
+interface Props {
+  chord: ChordMatch | null;
+  chroma: number[];
+  isListening: boolean;
+}
+
+const confidenceColor = (c: number) => c >= 0.85 ? '#10b981' : c >= 0.7 ? '#f59e0b' : '#ef4444';
+
+const ChordDisplay: React.FC<Props> = ({ chord, chroma, isListening }) => {
+  const chordTones = chord ? chordIntervals(chord.quality).map(i => (chord.root + i) % 12) : [];
+
+  return (
+    <div className="w-[300px] flex flex-col items-center space-y-4">
+      <div className="h-28 flex flex-col items-center justify-center text-center">
+        {chord ? (
+          <div className="animate-scale-in space-y-2">
+            <div className="flex items-baseline justify-center gap-2">
+              <span className="text-6xl font-black tracking-tighter text-tx">{NOTE_STRINGS[chord.root]}</span>
+              <span className="text-xl font-bold text-tx-sub">{chord.quality}</span>
+            </div>
+            <div className="flex items-center justify-center gap-2">
+              <div className="w-24 h-1.5 rounded-full overflow-hidden" style={{ background: 'var(--bg-hover)' }}>
+                <div className="h-full rounded-full transition-all duration-150" style={{ width: `${Math.round(chord.confidence * 100)}%`, background: confidenceColor(chord.confidence) }} />
+              </div>
+              <span className="text-xs font-mono font-bold" style={{ color: confidenceColor(chord.confidence) }}>{Math.round(chord.confidence * 100)}%</span>
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm font-semibold uppercase tracking-[0.12em] text-tx-muted">
+            {isListening ? '請彈奏一個和弦' : '按下開始進行和弦辨識'}
+          </div>
+        )}
+      </div>
+
+      {/* Chromagram */}
+      <div className="w-full flex items-end gap-1 h-20">
+        {NOTE_STRINGS.map((n, pc) => {
+          const inChord = chordTones.includes(pc);
+          return (
+            <div key={n} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <div
+                className="w-full rounded-t transition-all duration-150"
+                style={{ height: `${Math.round((chroma[pc] ?? 0) * 100)}%`, minHeight: 2, background: inChord ? 'var(--primary)' : 'var(--bd-strong)' }}
+              />
+              <span className={`text-[9px] font-mono ${inChord ? 'text-primary font-bold' : 'text-tx-muted'}`}>{n}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChordDisplay;
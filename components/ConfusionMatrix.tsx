@@ -0,0 +1,87 @@
+
+import React, { useMemo } from 'react';
+import { PracticeAttempt } from '../types';
+import { buildConfusionMatrix, itemWeakness } from '../utils/practiceHistory';
+
+interface Props {
+  attempts: PracticeAttempt[];
+  order?: string[];                    // preferred row/column order (e.g. enum order)
+  shortLabel?: (label: string) => string;
+}
+
+const ConfusionMatrix: React.FC<Props> = ({ attempts, order = [], shortLabel = l => l }) => {
+  const matrix = useMemo(() => {
+    const full = buildConfusionMatrix(attempts, order);
+    // Drop labels that never appear as either question or answer
+    const keep = full.labels.map((_, i) => full.counts[i].some(n => n > 0) || full.counts.some(row => row[i] > 0));
+    const labels = full.labels.filter((_, i) => keep[i]);
+    const counts = full.counts.filter((_, i) => keep[i]).map(row => row.filter((_, j) => keep[j]));
+    return { labels, counts };
+  }, [attempts, order]);
+  const weakness = useMemo(() => itemWeakness(attempts), [attempts]);
+
+  if (matrix.labels.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {/* Weakest items */}
+      <div className="space-y-1.5">
+        <div className="label">各項正確率（由弱到強）</div>
+        {weakness.map(w => (
+          <div key={w.item} className="flex items-center gap-2 text-[11px]">
+            <span className="w-28 truncate font-bold text-tx-sub">{w.item}</span>
+            <div className="flex-1 h-1.5 rounded-full overflow-hidden" style={{ background: 'var(--bg-hover)' }}>
+              <div className="h-full rounded-full" style={{ width: `${(1 - w.errorRate) * 100}%`, background: w.errorRate <= 0.2 ? '#10b981' : w.errorRate <= 0.5 ? '#f59e0b' : '#ef4444' }} />
+            </div>
+            <span className="w-14 text-right font-mono text-tx-muted">{w.correct}/{w.total}</span>
+            <span className="w-28 truncate text-tx-muted">{w.mostConfusedWith ? `常誤認為 ${w.mostConfusedWith}` : ''}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Heatmap */}
+      <div className="space-y-1.5">
+        <div className="label">混淆矩陣（列：正確答案 · 欄：你的回答）</div>
+        <div className="overflow-x-auto no-scrollbar">
+          <table className="border-separate text-[10px]" style={{ borderSpacing: 2 }}>
+            <thead>
+              <tr>
+                <th />
+                {matrix.labels.map(l => (
+                  <th key={l} className="font-semibold text-tx-muted px-1 whitespace-nowrap" title={l}>{shortLabel(l)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.labels.map((rowLabel, i) => {
+                const rowTotal = matrix.counts[i].reduce((a, b) => a + b, 0);
+                return (
+                  <tr key={rowLabel}>
+                    <th className="font-semibold text-tx-muted text-right pr-1 whitespace-nowrap" title={rowLabel}>{shortLabel(rowLabel)}</th>
+                    {matrix.counts[i].map((n, j) => {
+                      const ratio = rowTotal > 0 ? n / rowTotal : 0;
+                      const isDiag = i === j;
+                      const rgb = isDiag ? '16,185,129' : '239,68,68';
+                      return (
+                        <td
+                          key={j}
+                          className="w-8 h-8 text-center font-mono rounded"
+                          title={`${rowLabel} → ${matrix.labels[j]}: ${n}`}
+                          style={{ background: n > 0 ? `rgba(${rgb},${0.12 + ratio * 0.6})` : 'var(--input-bg)', color: n > 0 ? 'var(--tx)' : 'var(--tx-muted)' }}
+                        >
+                          {n > 0 ? n : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfusionMatrix;
@@ -0,0 +1,113 @@
+
+import React, { useState, useEffect } from 'react';
+import { Play, Square } from 'lucide-react';
+import { NOTE_STRINGS, midiToFrequency } from '../utils/audioEngine';
+import { TEMPERAMENTS, TemperamentId } from '../utils/temperaments';
+import {
+  DRONE_OCTAVES, DRONE_TIMBRES, droneNotes, getDroneSettings, isDroneRunning, justDeviation,
+  setDroneSettings, startDrone, stopDrone, subscribeDrone,
+} from '../utils/drone';
+
+interface Props {
+  // Pitch currently detected by the tuner, null while silent or not listening
+  frequency: number | null;
+}
+
+const deviationColor = (cents: number) => {
+  const abs = Math.abs(cents);
+  if (abs < 5) return '#10b981';
+  if (abs < 15) return '#f59e0b';
+  return '#ef4444';
+};
+
+const DronePanel: React.FC<Props> = ({ frequency }) => {
+  const [settings, setSettings] = useState(getDroneSettings());
+  const [running, setRunning] = useState(isDroneRunning());
+
+  useEffect(() => subscribeDrone(() => { setSettings(getDroneSettings()); setRunning(isDroneRunning()); }), []);
+  // Never leave the drone sounding after leaving the tuner
+  useEffect(() => () => stopDrone(), []);
+
+  const rootFrequency = midiToFrequency(droneNotes(settings)[0]);
+  const deviation = running && frequency ? justDeviation(frequency, rootFrequency) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={running ? stopDrone : startDrone}
+          className={`${running ? 'btn-primary' : 'btn-ghost'} px-3 py-1.5 text-xs flex items-center gap-1.5`}
+        >
+          {running ? <Square size={12} fill="currentColor" /> : <Play size={12} fill="currentColor" />}
+          {running ? '停止' : '播放'}
+        </button>
+        <select
+          value={settings.root}
+          onChange={e => setDroneSettings({ root: parseInt(e.target.value) })}
+          className="w-16 input-field p-1.5 text-xs cursor-pointer"
+          aria-label="持續音根音"
+        >
+          {NOTE_STRINGS.map((n, pc) => <option key={n} value={pc}>{n}</option>)}
+        </select>
+        <div className="flex gap-1">
+          {DRONE_OCTAVES.map(o => (
+            <button key={o} onClick={() => setDroneSettings({ octave: o })} className={`chip ${settings.octave === o ? 'chip-active' : ''}`}>{o}</button>
+          ))}
+        </div>
+        <span className="ml-auto text-[11px] font-mono text-tx-muted">{rootFrequency.toFixed(1)} Hz</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => setDroneSettings({ fifth: !settings.fifth })} className={`chip ${settings.fifth ? 'chip-active' : ''}`}>+ 五度</button>
+        <button onClick={() => setDroneSettings({ upperOctave: !settings.upperOctave })} className={`chip ${settings.upperOctave ? 'chip-active' : ''}`}>+ 八度</button>
+        <span className="w-px mx-1" style={{ background: 'var(--bd)' }} />
+        {DRONE_TIMBRES.map(t => (
+          <button key={t.id} onClick={() => setDroneSettings({ timbre: t.id })} className={`chip ${settings.timbre === t.id ? 'chip-active' : ''}`}>{t.label}</button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="label shrink-0">律制</span>
+        <select
+          value={settings.temperament.id}
+          onChange={e => setDroneSettings({ temperament: { ...settings.temperament, id: e.target.value as TemperamentId } })}
+          className="flex-1 input-field p-1.5 text-xs cursor-pointer"
+          aria-label="持續音律制"
+        >
+          {TEMPERAMENTS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        {settings.temperament.id !== 'equal' && (
+          <select
+            value={settings.temperament.tonic}
+            onChange={e => setDroneSettings({ temperament: { ...settings.temperament, tonic: parseInt(e.target.value) } })}
+            className="w-16 input-field p-1.5 text-xs cursor-pointer"
+            aria-label="主音"
+          >
+            {NOTE_STRINGS.map((n, pc) => <option key={n} value={pc}>{n}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Deviation from the pure interval above the drone root */}
+      {running && (
+        <div className="pt-2 border-t border-bd">
+          {deviation ? (
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-tx">
+                {deviation.label} <span className="font-mono text-tx-muted">{deviation.ratio}</span>
+              </span>
+              <span className="text-sm font-mono font-bold" style={{ color: deviationColor(deviation.cents) }}>
+                {deviation.cents > 0 ? '+' : ''}{deviation.cents.toFixed(1)}¢
+              </span>
+            </div>
+          ) : (
+            <p className="text-[11px] text-tx-muted">開啟調音器並演奏長音，即可看到與持續音純律音程的音分差。</p>
+          )}
+          <p className="text-[10px] text-tx-muted mt-1">建議配戴耳機，避免麥克風收到持續音本身。</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DronePanel;
@@ -1,25 +1,41 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Play, Music, CheckCircle, XCircle, ArrowRight, Volume2, Anchor, Mic, MicOff, RotateCcw } from 'lucide-react';
-import { NoteName, ChordQuality, IntervalQuality, Question } from '../types';
-import { generateQuestion, playNotes, NOTE_STRINGS, getAudioContext, autoCorrelate } from '../utils/audioEngine';
+import { Settings, Play, Music, CheckCircle, XCircle, ArrowRight, Volume2, Anchor, Mic, MicOff, RotateCcw, BarChart3, Settings2 } from 'lucide-react';
+import { NoteName, ChordQuality, IntervalQuality, Question, TrainerMode } from '../types';
+import { generateQuestion, playNotes, NOTE_STRINGS, getAudioContext, midiToFrequency, PlaybackHandle } from '../utils/audioEngine';
+import { PitchTracker, TrackerFrame, startPitchTracker } from '../utils/pitchTracker';
+import { MicInput, openMicInput, subscribeMicSettings } from '../utils/micInput';
+import { recordAttempt } from '../utils/practiceHistory';
+import { recordAdaptiveResult } from '../utils/adaptiveScheduler';
+import { CHORD_FAMILIES, qualitiesInFamily } from '../utils/chords';
 import FrequencyTraining from './FrequencyTraining';
 import RhythmTraining from './RhythmTraining';
 import ProgressionTraining from './ProgressionTraining';
 import ScaleTraining from './ScaleTraining';
 import PitchMatchingTraining from './PitchMatchingTraining';
-
-interface EarTrainingProps { volume?: number; }
-
-const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
-  const [mode, setMode] = useState<'settings' | 'game'>('settings');
-  const [gameMode, setGameMode] = useState<'note' | 'chord' | 'interval' | 'vocal' | 'frequency' | 'rhythm' | 'progression' | 'scale' | 'pitch'>('note');
+import SingingTraining from './SingingTraining';
+import MelodicDictation from './MelodicDictation';
+import InversionTraining from './InversionTraining';
+import PracticeStats from './PracticeStats';
+import AdaptiveToggle from './AdaptiveToggle';
+import InstrumentPicker from './InstrumentPicker';
+import MicSettingsPanel from './MicSettingsPanel';
+
+// Vocal hold meter, in percent per second of tracker time
+const VOCAL_FILL_RATE = 180;
+const VOCAL_OFF_PITCH_DECAY = 120;
+const VOCAL_SILENT_DECAY = 60;
+
+const EarTraining: React.FC = () => {
+  const [mode, setMode] = useState<'settings' | 'game' | 'stats'>('settings');
+  const [gameMode, setGameMode] = useState<TrainerMode>('note');
   const [selectedNotes, setSelectedNotes] = useState<NoteName[]>(NOTE_STRINGS);
   const [octaveRange, setOctaveRange] = useState<[number, number]>([3, 5]);
   const [polyphony, setPolyphony] = useState(1);
   const [chordQualities, setChordQualities] = useState<ChordQuality[]>([ChordQuality.MAJOR, ChordQuality.MINOR]);
   const [intervalQualities, setIntervalQualities] = useState<IntervalQuality[]>([IntervalQuality.M3, IntervalQuality.P5, IntervalQuality.P8]);
   const [playbackSpeed, setPlaybackSpeed] = useState<number>(1.0);
+  const [adaptive, setAdaptive] = useState(false);
   const [currentQuestion, setCurrentQuestion] = useState<Question | null>(null);
   const [userSelection, setUserSelection] = useState<string[]>([]);
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
@@ -29,16 +45,19 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
   const [currentCentsOff, setCurrentCentsOff] = useState<number | null>(null);
   const [vocalHoldProgress, setVocalHoldProgress] = useState(0);
   const [micVolume, setMicVolume] = useState(0);
+  const [showMicSettings, setShowMicSettings] = useState(false);
+  const [micSettingsVersion, setMicSettingsVersion] = useState(0);
 
   const autoAdvanceTimer = useRef<number | null>(null);
-  const audioLoopRef = useRef<number | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const micStreamRef = useRef<MediaStream | null>(null);
-  const bufferRef = useRef<Float32Array | null>(null);
+  const trackerRef = useRef<PitchTracker | null>(null);
+  const micRef = useRef<MicInput | null>(null);
+  const lastFrameTimeRef = useRef<number | null>(null);
   const isListeningRef = useRef(false);
+  const questionStartRef = useRef(0);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
 
   useEffect(() => {
-    return () => { stopListening(); if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current); };
+    return () => { stopListening(); playbackRef.current?.stop(); if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current); };
   }, []);
 
   // Clean up audio when gameMode changes in settings
@@ -46,9 +65,16 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
     if (mode === 'settings') {
       if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current);
       stopListening();
+      playbackRef.current?.stop();
     }
   }, [gameMode]);
 
+  // Reopen the mic with the new device / processing flags
+  useEffect(() => subscribeMicSettings(() => setMicSettingsVersion(v => v + 1)), []);
+  useEffect(() => {
+    if (micSettingsVersion && isListeningRef.current) { stopListening(); startListening(); }
+  }, [micSettingsVersion]);
+
   useEffect(() => {
     if (mode === 'game' && currentQuestion && !feedback) {
       const timer = setTimeout(() => handlePlay(), 400);
@@ -65,63 +91,81 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
   const toggleChord = (q: ChordQuality) => setChordQualities(prev => prev.includes(q) ? (prev.length > 1 ? prev.filter(c => c !== q) : prev) : [...prev, q]);
   const toggleInterval = (q: IntervalQuality) => setIntervalQualities(prev => prev.includes(q) ? (prev.length > 1 ? prev.filter(c => c !== q) : prev) : [...prev, q]);
 
-  const startGame = () => { setScore({ correct: 0, total: 0 }); setMode('game'); if (gameMode !== 'frequency' && gameMode !== 'pitch') nextQuestion(); };
+  const startGame = () => { setScore({ correct: 0, total: 0 }); setMode('game'); if (gameMode !== 'frequency' && gameMode !== 'pitch' && gameMode !== 'singing' && gameMode !== 'melody' && gameMode !== 'inversion') nextQuestion(); };
 
   const nextQuestion = () => {
     setFeedback(null); setUserSelection([]); setVocalHoldProgress(0); setCurrentCentsOff(null); setMicVolume(0); stopListening();
     if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current);
-    const q = generateQuestion({ mode: gameMode === 'vocal' ? 'note' : gameMode, selectedNotes, octaveRange, polyphony: gameMode === 'note' ? polyphony : (gameMode === 'vocal' ? 1 : 3), chordQualities, intervalQualities });
+    const q = generateQuestion({ mode: gameMode === 'vocal' ? 'note' : gameMode, selectedNotes, octaveRange, polyphony: gameMode === 'note' ? polyphony : (gameMode === 'vocal' ? 1 : 3), chordQualities, intervalQualities, adaptive });
     setCurrentQuestion(q);
+    questionStartRef.current = Date.now();
+  };
+
+  const logAttempt = (response: string, correct: boolean) => {
+    if (!currentQuestion) return;
+    recordAttempt({
+      trainer: gameMode,
+      question: currentQuestion.answerLabel,
+      expected: currentQuestion.answerNames.join(', '),
+      response,
+      correct,
+      responseMs: Date.now() - questionStartRef.current,
+      settings: { selectedNotes, octaveRange, polyphony, chordQualities, intervalQualities, playbackSpeed, adaptive },
+    });
+    // Keep the scheduler's boxes up to date even when adaptive mode is off
+    if (gameMode === 'interval' || gameMode === 'chord') recordAdaptiveResult(gameMode, currentQuestion.answerNames[0], correct);
+  };
+
+  // Stops whatever is still sounding so replays never overlap
+  const play = (notes: number[], duration: number, type: 'simultaneous' | 'arpeggio' = 'simultaneous') => {
+    playbackRef.current?.stop();
+    playbackRef.current = playNotes(notes, duration, type);
   };
 
-  const handlePlay = () => { if (currentQuestion) playNotes(currentQuestion.notes, playbackSpeed, gameMode === 'interval' ? 'arpeggio' : 'simultaneous'); };
-  const playReferenceC = () => playNotes([72], playbackSpeed);
+  const handlePlay = () => { if (currentQuestion) play(currentQuestion.notes, playbackSpeed, gameMode === 'interval' ? 'arpeggio' : 'simultaneous'); };
+  const playReferenceC = () => play([72], playbackSpeed);
 
   const toggleVocalTest = () => { if (isListeningRef.current) stopListening(); else startListening(); };
 
   const startListening = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       const ctx = getAudioContext();
-      if (ctx.state === 'suspended') await ctx.resume();
-      const analyser = ctx.createAnalyser();
-      analyser.fftSize = 2048;
-      const source = ctx.createMediaStreamSource(stream);
-      source.connect(analyser);
-      analyserRef.current = analyser; micStreamRef.current = stream; bufferRef.current = new Float32Array(analyser.fftSize);
-      isListeningRef.current = true; setIsListening(true); vocalLoop();
+      const mic = await openMicInput(ctx);
+      micRef.current = mic; lastFrameTimeRef.current = null;
+      isListeningRef.current = true; setIsListening(true);
+      const tracker = await startPitchTracker(ctx, mic.source, handleVocalFrame);
+      if (!isListeningRef.current) { tracker.stop(); return; }
+      trackerRef.current = tracker;
     } catch (err) { console.error("Vocal match error:", err); alert("無法啟用麥克風，請檢查權限。"); }
   };
 
   const stopListening = () => {
     isListeningRef.current = false; setIsListening(false);
-    if (audioLoopRef.current) { cancelAnimationFrame(audioLoopRef.current); audioLoopRef.current = null; }
-    if (micStreamRef.current) { micStreamRef.current.getTracks().forEach(t => t.stop()); micStreamRef.current = null; }
+    trackerRef.current?.stop(); trackerRef.current = null;
+    micRef.current?.close(); micRef.current = null;
     setMicVolume(0);
   };
 
-  const vocalLoop = () => {
-    if (!analyserRef.current || !bufferRef.current || !currentQuestion || !isListeningRef.current) return;
-    analyserRef.current.getFloatTimeDomainData(bufferRef.current);
-    let sumSquares = 0.0;
-    for (const amplitude of bufferRef.current) sumSquares += amplitude * amplitude;
-    setMicVolume(Math.sqrt(sumSquares / bufferRef.current.length));
-    const freq = autoCorrelate(bufferRef.current, getAudioContext().sampleRate);
+  const handleVocalFrame = ({ frequency: freq, rms, time }: TrackerFrame) => {
+    if (!currentQuestion || !isListeningRef.current) return;
+    const dt = lastFrameTimeRef.current === null ? 0 : Math.min(0.25, time - lastFrameTimeRef.current);
+    lastFrameTimeRef.current = time;
+    setMicVolume(rms);
     if (freq > 0) {
       const targetMidi = currentQuestion.notes[0];
-      const targetFreq = 440 * Math.pow(2, (targetMidi - 69) / 12);
+      const targetFreq = midiToFrequency(targetMidi);
       const cents = 1200 * Math.log2(freq / targetFreq);
       setCurrentCentsOff(cents);
       if (Math.abs(cents) < 40) {
-        setVocalHoldProgress(prev => { const next = prev + 3; if (next >= 100) { setTimeout(() => handleVocalSuccess(), 0); return 100; } return next; });
-      } else { setVocalHoldProgress(prev => Math.max(0, prev - 2)); }
-    } else { setCurrentCentsOff(null); setVocalHoldProgress(prev => Math.max(0, prev - 1)); }
-    if (isListeningRef.current) audioLoopRef.current = requestAnimationFrame(vocalLoop);
+        setVocalHoldProgress(prev => { const next = prev + VOCAL_FILL_RATE * dt; if (next >= 100) { if (prev < 100) setTimeout(() => handleVocalSuccess(), 0); return 100; } return next; });
+      } else { setVocalHoldProgress(prev => Math.max(0, prev - VOCAL_OFF_PITCH_DECAY * dt)); }
+    } else { setCurrentCentsOff(null); setVocalHoldProgress(prev => Math.max(0, prev - VOCAL_SILENT_DECAY * dt)); }
   };
 
   const handleVocalSuccess = () => {
     if (feedback) return;
     stopListening(); setFeedback('correct'); setScore(s => ({ correct: s.correct + 1, total: s.total + 1 }));
+    if (currentQuestion) logAttempt(currentQuestion.answerLabel, true);
     autoAdvanceTimer.current = window.setTimeout(() => nextQuestion(), 1500);
   };
 
@@ -131,14 +175,16 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
       if (polyphony === 1) {
         const isCorrect = currentQuestion.answerNames.includes(answer);
         setUserSelection([answer]);
+        logAttempt(answer, isCorrect);
         if (isCorrect) { setFeedback('correct'); setScore(s => ({ correct: s.correct + 1, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => nextQuestion(), 1000); }
-        else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); setTimeout(() => playNotes(currentQuestion.notes, playbackSpeed), 400); }
+        else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => play(currentQuestion.notes, playbackSpeed), 400); }
       } else setUserSelection(prev => prev.includes(answer) ? prev.filter(a => a !== answer) : (prev.length < polyphony ? [...prev, answer] : prev));
     } else {
       const isCorrect = currentQuestion.answerNames.includes(answer);
       setUserSelection([answer]);
+      logAttempt(answer, isCorrect);
       if (isCorrect) { setFeedback('correct'); setScore(s => ({ correct: s.correct + 1, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => nextQuestion(), 1500); }
-      else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); setTimeout(() => playNotes(currentQuestion.notes, playbackSpeed), 400); }
+      else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => play(currentQuestion.notes, playbackSpeed), 400); }
     }
   };
 
@@ -146,10 +192,14 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
     if (!currentQuestion || feedback) return;
     const correct = currentQuestion.answerNames;
     const isCorrect = userSelection.length === correct.length && userSelection.every(val => correct.includes(val));
+    logAttempt(userSelection.join(', '), isCorrect);
     if (isCorrect) { setFeedback('correct'); setScore(s => ({ correct: s.correct + 1, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => nextQuestion(), 1500); }
-    else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); setTimeout(() => playNotes(currentQuestion.notes, playbackSpeed), 400); }
+    else { setFeedback('incorrect'); setScore(s => ({ ...s, total: s.total + 1 })); autoAdvanceTimer.current = window.setTimeout(() => play(currentQuestion.notes, playbackSpeed), 400); }
   };
 
+  // ========== STATS PAGE ==========
+  if (mode === 'stats') return <PracticeStats onBack={() => setMode('settings')} />;
+
   // ========== SETTINGS PAGE ==========
   if (mode === 'settings') {
     return (
@@ -164,8 +214,8 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
           <div className="card p-4 sm:p-6 space-y-4 lg:flex-1">
             <h3 className="font-bold text-tx text-sm flex items-center gap-2">1. 模式</h3>
             <div className="flex flex-wrap gap-1.5 p-1 card-inner lg:grid lg:grid-cols-4">
-              {(['note', 'interval', 'chord', 'vocal', 'frequency', 'rhythm', 'progression', 'scale', 'pitch'] as const).map(m => {
-                const labels: Record<string, string> = { note: '聽音', interval: '音程', chord: '和弦', vocal: '視唱', frequency: '頻率 EQ', rhythm: '節奏', progression: '進行', scale: '音階', pitch: '音高匹配' };
+              {(['note', 'interval', 'chord', 'vocal', 'frequency', 'rhythm', 'progression', 'scale', 'pitch', 'singing', 'melody', 'inversion'] as const).map(m => {
+                const labels: Record<string, string> = { note: '聽音', interval: '音程', chord: '和弦', vocal: '視唱', frequency: '頻率 EQ', rhythm: '節奏', progression: '進行', scale: '音階', pitch: '音高匹配', singing: '歌唱', melody: '旋律聽寫', inversion: '轉位' };
                 return (
                   <button key={m} onClick={() => setGameMode(m)} className={`flex-1 py-2.5 rounded-lg text-[11px] font-bold transition-all cursor-pointer ${gameMode === m ? 'text-primary-sub' : 'text-tx-muted hover:text-tx-sub'}`} style={gameMode === m ? { background: 'var(--primary-bg)', border: '1px solid var(--primary)' } : {}}>
                     {labels[m]}
@@ -201,6 +251,8 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                 </div>
               </div>
             </div>
+
+            <InstrumentPicker />
           </div>
 
           {/* Content Card */}
@@ -227,8 +279,8 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
               <div className="rounded-xl px-4 py-3 text-sm animate-fade-in" style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.2)' }}>
                 <p className="font-semibold mb-1" style={{ color: 'var(--primary-sub)' }}>和弦進行辨識</p>
                 <p className="text-xs leading-relaxed" style={{ color: 'var(--tx-muted)' }}>
-                  聆聽一段和弦進行，從選項中辨識出正確的和弦級數進行。
-                  涵蓋流行、古典、爵士等常見進行模式。
+                  「選擇」模式從選項中辨識常見的流行、古典、爵士進行；
+                  「聽寫」模式依功能和聲產生進行，逐一寫出每個和弦的級數，可加入轉位、副屬和弦與低音線。
                 </p>
               </div>
             )}
@@ -250,7 +302,34 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                 </p>
               </div>
             )}
-            {(gameMode !== 'interval' && gameMode !== 'chord' && gameMode !== 'frequency' && gameMode !== 'rhythm' && gameMode !== 'progression' && gameMode !== 'scale' && gameMode !== 'pitch') && (
+            {gameMode === 'singing' && (
+              <div className="rounded-xl px-4 py-3 text-sm animate-fade-in" style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.2)' }}>
+                <p className="font-semibold mb-1" style={{ color: 'var(--primary-sub)' }}>歌唱音程 / 旋律模唱</p>
+                <p className="text-xs leading-relaxed" style={{ color: 'var(--tx-muted)' }}>
+                  系統播放參考音或一段短旋律，你用麥克風唱出指定音程或把旋律唱回來。
+                  逐音評分音準（可用任何八度演唱），旋律模唱另評節奏時間點。
+                </p>
+              </div>
+            )}
+            {gameMode === 'melody' && (
+              <div className="rounded-xl px-4 py-3 text-sm animate-fade-in" style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.2)' }}>
+                <p className="font-semibold mb-1" style={{ color: 'var(--primary-sub)' }}>旋律聽寫</p>
+                <p className="text-xs leading-relaxed" style={{ color: 'var(--tx-muted)' }}>
+                  先播放主和弦定調，再播放一段調內短旋律，於五線譜或鋼琴上寫下每個音。
+                  可設定音階、長度、音域與節奏難度，提交後逐音批改。
+                </p>
+              </div>
+            )}
+            {gameMode === 'inversion' && (
+              <div className="rounded-xl px-4 py-3 text-sm animate-fade-in" style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.2)' }}>
+                <p className="font-semibold mb-1" style={{ color: 'var(--primary-sub)' }}>和弦轉位辨識</p>
+                <p className="text-xs leading-relaxed" style={{ color: 'var(--tx-muted)' }}>
+                  以隨機轉位或開放配置播放三和弦與七和弦，同時辨識和弦屬性與轉位（原位、第一、第二、第三轉位）。
+                  可選擇要練習的轉位。
+                </p>
+              </div>
+            )}
+            {(gameMode !== 'interval' && gameMode !== 'chord' && gameMode !== 'frequency' && gameMode !== 'rhythm' && gameMode !== 'progression' && gameMode !== 'scale' && gameMode !== 'pitch' && gameMode !== 'singing' && gameMode !== 'melody' && gameMode !== 'inversion') && (
               <div className="space-y-2 animate-fade-in">
                 <label className="label">可用音符</label>
                 <div className="grid grid-cols-4 gap-1.5">
@@ -265,11 +344,18 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
             {gameMode === 'chord' && (
               <div className="space-y-2 animate-fade-in">
                 <label className="label">和弦屬性</label>
-                <div className="grid grid-cols-2 lg:grid-cols-3 gap-1.5 max-h-40 lg:max-h-60 overflow-y-auto pr-1 no-scrollbar">
-                  {Object.values(ChordQuality).map(q => (
-                    <button key={q} onClick={() => toggleChord(q)} className={`text-[10px] py-2 px-2.5 rounded-lg text-left truncate transition-all cursor-pointer ${chordQualities.includes(q) ? 'text-success' : 'text-tx-muted hover:text-tx-sub'}`} style={chordQualities.includes(q) ? { background: 'rgba(16,185,129,0.08)', border: '1px solid rgba(16,185,129,0.3)' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
-                      {q}
-                    </button>
+                <div className="space-y-2 max-h-40 lg:max-h-60 overflow-y-auto pr-1 no-scrollbar">
+                  {CHORD_FAMILIES.map(f => (
+                    <div key={f.id} className="space-y-1">
+                      <div className="text-[9px] font-bold text-tx-muted">{f.label}</div>
+                      <div className="grid grid-cols-2 lg:grid-cols-3 gap-1.5">
+                        {qualitiesInFamily(f.id).map(q => (
+                          <button key={q} onClick={() => toggleChord(q)} className={`text-[10px] py-2 px-2.5 rounded-lg text-left truncate transition-all cursor-pointer ${chordQualities.includes(q) ? 'text-success' : 'text-tx-muted hover:text-tx-sub'}`} style={chordQualities.includes(q) ? { background: 'rgba(16,185,129,0.08)', border: '1px solid rgba(16,185,129,0.3)' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
+                            {q}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
                   ))}
                 </div>
               </div>
@@ -286,10 +372,16 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                 </div>
               </div>
             )}
+            {(gameMode === 'chord' || gameMode === 'interval') && (
+              <AdaptiveToggle scope={gameMode} items={gameMode === 'chord' ? chordQualities : intervalQualities} enabled={adaptive} onChange={setAdaptive} />
+            )}
           </div>
         </div>
 
-        <div className="flex justify-center pt-2">
+        <div className="flex flex-col sm:flex-row items-center justify-center gap-3 pt-2">
+          <button onClick={() => setMode('stats')} className="w-full sm:w-auto btn-ghost flex items-center justify-center gap-2 px-6 py-4 text-sm font-bold">
+            <BarChart3 size={16} /> 練習紀錄
+          </button>
           <button onClick={startGame} className="w-full sm:w-auto btn-primary px-12 py-4 text-base tracking-wide active:scale-95" style={{ boxShadow: '0 4px 20px rgba(200,149,108,0.2)' }}>
             開始練習
           </button>
@@ -299,18 +391,21 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
   }
 
   // ========== DELEGATE MODES ==========
-  if (gameMode === 'frequency') return <FrequencyTraining onBack={() => setMode('settings')} volume={volume} />;
-  if (gameMode === 'rhythm') return <RhythmTraining onBack={() => setMode('settings')} volume={volume} />;
-  if (gameMode === 'progression') return <ProgressionTraining onBack={() => setMode('settings')} volume={volume} />;
-  if (gameMode === 'scale') return <ScaleTraining onBack={() => setMode('settings')} volume={volume} />;
-  if (gameMode === 'pitch') return <PitchMatchingTraining onBack={() => setMode('settings')} volume={volume} />;
+  if (gameMode === 'frequency') return <FrequencyTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'rhythm') return <RhythmTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'progression') return <ProgressionTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'scale') return <ScaleTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'pitch') return <PitchMatchingTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'singing') return <SingingTraining onBack={() => setMode('settings')} />;
+  if (gameMode === 'melody') return <MelodicDictation onBack={() => setMode('settings')} />;
+  if (gameMode === 'inversion') return <InversionTraining onBack={() => setMode('settings')} />;
 
   // ========== GAME PAGE ==========
   return (
     <div className="flex flex-col h-full max-w-xl lg:max-w-4xl mx-auto p-4 sm:p-6 overflow-y-auto animate-slide-up">
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
-        <button onClick={() => { stopListening(); setMode('settings'); }} className="btn-ghost p-2 cursor-pointer">
+        <button onClick={() => { stopListening(); playbackRef.current?.stop(); setMode('settings'); }} className="btn-ghost p-2 cursor-pointer">
           <Settings size={18}/>
         </button>
         <div className="flex flex-col items-end">
@@ -348,8 +443,8 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
 
             {(gameMode !== 'note' && gameMode !== 'vocal' || polyphony > 1) && (
               <div className="flex flex-col gap-2">
-                <button onClick={() => playNotes(currentQuestion?.notes || [], 1, 'arpeggio')} className="btn-ghost px-3 py-1.5 text-[10px] uppercase tracking-wider">琶音</button>
-                <button onClick={() => playNotes(currentQuestion?.notes || [], 1, 'simultaneous')} className="btn-ghost px-3 py-1.5 text-[10px] uppercase tracking-wider">和弦</button>
+                <button onClick={() => play(currentQuestion?.notes || [], 1, 'arpeggio')} className="btn-ghost px-3 py-1.5 text-[10px] uppercase tracking-wider">琶音</button>
+                <button onClick={() => play(currentQuestion?.notes || [], 1, 'simultaneous')} className="btn-ghost px-3 py-1.5 text-[10px] uppercase tracking-wider">和弦</button>
               </div>
             )}
           </div>
@@ -371,6 +466,17 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                 )}
               </div>
 
+              <div className="w-full">
+                <button onClick={() => setShowMicSettings(v => !v)} className="flex items-center gap-1.5 text-[11px] text-tx-muted hover:text-tx-sub cursor-pointer mx-auto">
+                  <Settings2 size={12} className={showMicSettings ? 'text-primary' : ''} /> 麥克風設定
+                </button>
+                {showMicSettings && (
+                  <div className="card p-3 mt-2 animate-fade-in">
+                    <MicSettingsPanel level={isListening ? micVolume : undefined} />
+                  </div>
+                )}
+              </div>
+
               <div className="w-full space-y-4 min-h-[100px] flex flex-col justify-center">
                 {isListening ? (
                   <div className="space-y-4 animate-fade-in">
@@ -392,7 +498,7 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                     <div className="space-y-1.5">
                       <div className="flex justify-between items-center label px-1">
                         <span>匹配穩定度</span>
-                        <span className="text-success">{vocalHoldProgress}%</span>
+                        <span className="text-success">{Math.round(vocalHoldProgress)}%</span>
                       </div>
                       <div className="w-full h-2 rounded-full overflow-hidden" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
                         <div className="h-full rounded-full transition-all duration-100 ease-out" style={{ width: `${vocalHoldProgress}%`, background: 'linear-gradient(90deg, #10b981, var(--primary))' }}></div>
@@ -422,7 +528,7 @@ const EarTraining: React.FC<EarTrainingProps> = ({ volume = 0.5 }) => {
                   <span>{currentQuestion?.answerLabel}</span>
                 </div>
                 {feedback === 'incorrect' && currentQuestion && (
-                  <button onClick={() => playNotes(currentQuestion.notes, playbackSpeed)} className="px-3 py-2 rounded-full text-[10px] font-bold cursor-pointer transition-all hover:opacity-80" style={{ background: 'rgba(200,149,108,0.1)', border: '1px solid rgba(200,149,108,0.25)', color: 'var(--primary-sub)' }}>
+                  <button onClick={() => play(currentQuestion.notes, playbackSpeed)} className="px-3 py-2 rounded-full text-[10px] font-bold cursor-pointer transition-all hover:opacity-80" style={{ background: 'rgba(200,149,108,0.1)', border: '1px solid rgba(200,149,108,0.25)', color: 'var(--primary-sub)' }}>
                     <Volume2 size={13} />
                   </button>
                 )}
@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Settings, Play, CheckCircle, Headphones, SkipForward, Sliders, Upload, X, Music } from 'lucide-react';
-import { getAudioContext } from '../utils/audioEngine';
+import { getAudioContext, getChannel } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
 
 // ── Types ─────────────────────────────────────────────────────────────────
 
@@ -9,7 +10,7 @@ interface EQBand { id: number; frequency: number; gain: number; }
 type Phase = 'idle' | 'playing' | 'answering' | 'result';
 type Difficulty = 'easy' | 'medium' | 'hard';
 
-interface Props { onBack: () => void; volume?: number; }
+interface Props { onBack: () => void; }
 
 // ── Difficulty Config ──────────────────────────────────────────────────────
 
@@ -161,7 +162,7 @@ async function clearAudioFromDB() {
 
 // ── Component ──────────────────────────────────────────────────────────────
 
-const FrequencyTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
+const FrequencyTraining: React.FC<Props> = ({ onBack }) => {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy');
   const [phase, setPhase] = useState<Phase>('idle');
   const [answer, setAnswer] = useState<EQBand[]>([]);
@@ -180,6 +181,7 @@ const FrequencyTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const customBufferRef = useRef<AudioBuffer | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const answerStartRef = useRef(0);
 
   // Load persisted custom audio on mount
   useEffect(() => {
@@ -244,16 +246,16 @@ const FrequencyTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     }
 
     const master = ctx.createGain();
-    const peak = Math.max(0, Math.min(1, volume));
+    const peak = 0.5;
     master.gain.setValueAtTime(0, ctx.currentTime);
     master.gain.linearRampToValueAtTime(peak, ctx.currentTime + 0.07);
     master.gain.setValueAtTime(peak, ctx.currentTime + dur - 0.15);
     master.gain.linearRampToValueAtTime(0, ctx.currentTime + dur);
-    node.connect(master); master.connect(ctx.destination);
+    node.connect(master); master.connect(getChannel('trainers'));
     src.start(); srcRef.current = src; gainRef.current = master;
 
     if (cb) timerRef.current = setTimeout(() => { stopAudio(); cb(); }, dur * 1000);
-  }, [stopAudio, volume]);
+  }, [stopAudio]);
 
   const start = useCallback(() => {
     const cfg = DIFF[difficulty];
@@ -261,7 +263,7 @@ const FrequencyTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     setAnswer(bands);
     setUser(defaultBands(difficulty));
     setScore(null); setPhase('playing');
-    playEQ(bands, 2.5, () => setPhase('answering'));
+    playEQ(bands, 2.5, () => { setPhase('answering'); answerStartRef.current = Date.now(); });
   }, [playEQ, difficulty]);
 
   const replay = useCallback(() => {
@@ -277,10 +279,21 @@ const FrequencyTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const submit = useCallback(() => {
     stopAudio(); setPreviewing(false);
     const s = calcScore(answer, user);
+    const describe = (bands: EQBand[]) => bands.map(b => `${fmtF(b.frequency)}Hz ${b.gain >= 0 ? '+' : ''}${b.gain.toFixed(1)}dB`).join(' / ');
+    recordAttempt({
+      trainer: 'frequency',
+      question: `${DIFF[difficulty].label} · ${answer.length} 段`,
+      expected: describe(answer),
+      response: describe(user),
+      correct: s >= 90,
+      responseMs: Date.now() - answerStartRef.current,
+      score: s,
+      settings: { difficulty, customAudio: customAudioName },
+    });
     setScore(s); setTotal(t => t + 1);
     if (s >= 90) setCorrect(c => c + 1);
     setPhase('result');
-  }, [answer, user, stopAudio]);
+  }, [answer, user, stopAudio, difficulty, customAudioName]);
 
   // ── Pointer Events ──────────────────────────────────────────────────────
 
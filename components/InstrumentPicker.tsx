@@ -0,0 +1,70 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, X, Music } from 'lucide-react';
+import { INSTRUMENTS, InstrumentId, getInstrument, setInstrument, subscribeInstrument, getSamplerInfo, loadSamplerFiles, clearSampler, restoreSampler } from '../utils/instruments';
+
+interface Props { compact?: boolean; }
+
+const InstrumentPicker: React.FC<Props> = ({ compact = false }) => {
+  const [instrument, setLocal] = useState<InstrumentId>(getInstrument());
+  const [sampler, setSampler] = useState(getSamplerInfo());
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Stay in sync with pickers on other tabs
+  useEffect(() => subscribeInstrument(() => { setLocal(getInstrument()); setSampler(getSamplerInfo()); }), []);
+  useEffect(() => { if (instrument === 'sampler') restoreSampler(); }, [instrument]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    if (Array.from<File>(files).some(f => f.name.toLowerCase().endsWith('.sf2'))) {
+      alert('不支援 SoundFont（.sf2）檔案：請改用 SFZ，或以音名命名的音訊檔（如 Piano_C4.wav）。');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+    setLoading(true);
+    try {
+      const sfz = Array.from<File>(files).find(f => f.name.toLowerCase().endsWith('.sfz'));
+      const count = await loadSamplerFiles(files, sfz ? sfz.name.replace(/\.sfz$/i, '') : `${files.length} 個取樣`);
+      if (count === 0) alert('找不到可用的取樣：請以音名命名檔案（如 Piano_C4.wav），或一併選擇 .sfz 檔案。');
+    } catch {
+      alert('無法解碼取樣檔案，請嘗試 MP3 或 WAV 格式。');
+    }
+    setLoading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      {!compact && <label className="label">音色</label>}
+      <select value={instrument} onChange={e => setInstrument(e.target.value as InstrumentId)} className="w-full input-field p-2.5 text-xs cursor-pointer" aria-label="音色">
+        {INSTRUMENTS.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+      </select>
+      {instrument === 'sampler' && (
+        <div className="animate-fade-in">
+          <input ref={fileInputRef} type="file" multiple accept="audio/*,.sfz" className="hidden" onChange={handleFiles} />
+          {sampler.name ? (
+            <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-bold"
+              style={{ background: 'rgba(16,185,129,0.08)', border: '1px solid rgba(16,185,129,0.25)', color: '#10b981' }}>
+              <Music size={12} className="shrink-0" />
+              <span className="flex-1 truncate">{sampler.name}（{sampler.zones} 個音）</span>
+              <button onClick={() => clearSampler()} className="ml-0.5 hover:opacity-70 cursor-pointer" aria-label="移除取樣"><X size={12} /></button>
+            </div>
+          ) : (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className="w-full flex items-center justify-center gap-1.5 px-2.5 py-2 rounded-lg text-[11px] font-bold cursor-pointer transition-all hover:opacity-80 disabled:opacity-50"
+              style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-muted)' }}>
+              <Upload size={12} /> {loading ? '載入中…' : '載入取樣（音訊檔 / SFZ）'}
+            </button>
+          )}
+          {!sampler.name && <p className="text-[9px] text-tx-muted mt-1">支援 SFZ 與以音名命名的音訊檔，不支援 .sf2 SoundFont；尚未載入取樣時以鋼琴音色播放</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstrumentPicker;
@@ -0,0 +1,114 @@
+
+import React from 'react';
+import { Download, X } from 'lucide-react';
+import { IntonationReport, reportToCsv, reportToJson, downloadText } from '../utils/intonationAnalysis';
+
+interface Props {
+  report: IntonationReport;
+  onClose: () => void;
+}
+
+const centsColor = (cents: number) => {
+  const abs = Math.abs(cents);
+  if (abs < 5) return '#10b981';
+  if (abs < 15) return '#f59e0b';
+  return '#ef4444';
+};
+
+const signed = (x: number, digits: number = 1) => `${x > 0 ? '+' : ''}${x.toFixed(digits)}`;
+
+const DRIFT_W = 280;
+const DRIFT_H = 70;
+
+const IntonationReportView: React.FC<Props> = ({ report, onClose }) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const maxAbs = Math.max(10, ...report.byNoteName.map(n => Math.abs(n.meanCents)));
+
+  // Drift chart: per-note average cents over time, ±maxDrift vertical range
+  const pts = report.drift.points;
+  const maxDrift = Math.max(10, ...pts.map(p => Math.abs(p.cents)));
+  const x = (t: number) => report.duration > 0 ? (t / report.duration) * DRIFT_W : 0;
+  const y = (c: number) => DRIFT_H / 2 - (c / maxDrift) * (DRIFT_H / 2 - 4);
+
+  return (
+    <div className="w-full max-w-lg card p-4 space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <div className="label">音準分析報告</div>
+        <button onClick={onClose} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="關閉報告"><X size={14} className="text-tx-muted" /></button>
+      </div>
+
+      {report.notes.length === 0 ? (
+        <p className="text-xs text-tx-muted">沒有偵測到足夠長的音，請以穩定的長音再錄一次。</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              ['長度', `${report.duration.toFixed(1)} s`],
+              ['音數', String(report.notes.length)],
+              ['漂移', `${signed(report.drift.centsPerMinute)} ¢/分`],
+              ['顫音', report.vibrato ? `${report.vibrato.rateHz.toFixed(1)} Hz ±${report.vibrato.depthCents.toFixed(0)}¢` : '—'],
+            ].map(([k, v]) => (
+              <div key={k} className="card-inner p-2">
+                <div className="text-[10px] text-tx-muted">{k}</div>
+                <div className="text-xs font-bold font-mono text-tx">{v}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="text-[11px] font-bold text-tx-sub">各音平均偏差</div>
+            {report.byNoteName.map(n => (
+              <div key={n.name} className="flex items-center gap-2 text-[11px]">
+                <span className="w-7 font-mono font-bold text-tx-sub">{n.name}</span>
+                <div className="flex-1 h-3 relative rounded" style={{ background: 'var(--bg-hover)' }}>
+                  <div className="absolute top-0 bottom-0 w-px" style={{ left: '50%', background: 'var(--bd-strong)' }} />
+                  <div
+                    className="absolute top-0.5 bottom-0.5 rounded"
+                    style={{
+                      left: n.meanCents < 0 ? `${50 - (Math.abs(n.meanCents) / maxAbs) * 50}%` : '50%',
+                      width: `${(Math.abs(n.meanCents) / maxAbs) * 50}%`,
+                      background: centsColor(n.meanCents),
+                    }}
+                  />
+                </div>
+                <span className="w-20 text-right font-mono" style={{ color: centsColor(n.meanCents) }}>{signed(n.meanCents)}¢</span>
+                <span className="w-8 text-right text-tx-muted">×{n.count}</span>
+              </div>
+            ))}
+          </div>
+
+          {pts.length >= 2 && (
+            <div className="space-y-1">
+              <div className="text-[11px] font-bold text-tx-sub">音準隨時間變化</div>
+              <svg width="100%" viewBox={`0 0 ${DRIFT_W} ${DRIFT_H}`} className="rounded-lg" style={{ background: 'var(--bg-hover)' }}>
+                <line x1={0} x2={DRIFT_W} y1={DRIFT_H / 2} y2={DRIFT_H / 2} stroke="var(--bd-strong)" strokeWidth="0.5" />
+                <polyline points={pts.map(p => `${x(p.time)},${y(p.cents)}`).join(' ')} fill="none" stroke="var(--primary)" strokeWidth="1.5" />
+                {pts.map((p, i) => <circle key={i} cx={x(p.time)} cy={y(p.cents)} r="2" fill={centsColor(p.cents)} />)}
+              </svg>
+            </div>
+          )}
+
+          {report.worst.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-[11px] font-bold text-tx-sub">最需加強：</span>
+              {report.worst.map(n => (
+                <span key={n.name} className="chip" style={{ color: centsColor(n.meanCents) }}>{n.name} {signed(n.meanCents)}¢</span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <button onClick={() => downloadText(`intonation-${stamp}.csv`, reportToCsv(report), 'text/csv')} className="btn-ghost flex-1 flex items-center justify-center gap-1.5 py-2 text-xs">
+          <Download size={12} /> CSV
+        </button>
+        <button onClick={() => downloadText(`intonation-${stamp}.json`, reportToJson(report), 'application/json')} className="btn-ghost flex-1 flex items-center justify-center gap-1.5 py-2 text-xs">
+          <Download size={12} /> JSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IntonationReportView;
@@ -0,0 +1,234 @@
+
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { Settings, Play, CheckCircle, XCircle, SkipForward, Volume2 } from 'lucide-react';
+import { playNotes, NOTE_STRINGS, PlaybackHandle } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
+import { INVERSION_NAMES, INVERTIBLE_QUALITIES, chordIntervals, chordName, invertChord } from '../utils/chords';
+import { ChordQuality } from '../types';
+
+type Phase = 'idle' | 'answering' | 'result';
+type Spread = 'close' | 'spread' | 'mixed';
+
+interface Props { onBack: () => void; }
+
+interface InversionQuestion {
+  root: number;          // MIDI
+  quality: ChordQuality;
+  inversion: number;
+  spread: boolean;
+  notes: number[];
+}
+
+const SPREADS: { id: Spread; label: string }[] = [
+  { id: 'close', label: '密集' },
+  { id: 'spread', label: '開放' },
+  { id: 'mixed', label: '混合' },
+];
+
+const toggleIn = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? (list.length > 1 ? list.filter(i => i !== item) : list) : [...list, item];
+
+const InversionTraining: React.FC<Props> = ({ onBack }) => {
+  const [qualities, setQualities] = useState<ChordQuality[]>([ChordQuality.MAJOR, ChordQuality.MINOR]);
+  const [inversions, setInversions] = useState<number[]>([0, 1, 2]);
+  const [spreadMode, setSpreadMode] = useState<Spread>('close');
+  const [arpeggio, setArpeggio] = useState(false);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [question, setQuestion] = useState<InversionQuestion | null>(null);
+  const [pickedQuality, setPickedQuality] = useState<ChordQuality | null>(null);
+  const [pickedInversion, setPickedInversion] = useState<number | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const answerStartRef = useRef(0);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); playbackRef.current?.stop(); }, []);
+
+  // Third inversion only exists for seventh chords
+  const pairs = qualities.flatMap(q => inversions.filter(inv => inv < chordIntervals(q).length).map(inv => ({ quality: q, inversion: inv })));
+  const hasSeventh = qualities.some(q => chordIntervals(q).length > 3);
+
+  const play = useCallback((q: InversionQuestion) => {
+    playbackRef.current?.stop();
+    playbackRef.current = playNotes(q.notes, arpeggio ? 0.6 : 1.5, arpeggio ? 'arpeggio' : 'simultaneous');
+  }, [arpeggio]);
+
+  const nextQuestion = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (pairs.length === 0) return;
+    const { quality, inversion } = pairs[Math.floor(Math.random() * pairs.length)];
+    const spread = spreadMode === 'spread' || (spreadMode === 'mixed' && Math.random() < 0.5);
+    // Bass lands roughly in C3–C4 whatever the inversion
+    const root = 48 + Math.floor(Math.random() * 12) - (inversion > 0 ? 6 : 0) + (spread ? 12 : 0);
+    const q: InversionQuestion = { root, quality, inversion, spread, notes: invertChord(root, quality, inversion, spread) };
+    setQuestion(q);
+    setPickedQuality(null);
+    setPickedInversion(null);
+    setPhase('answering');
+    answerStartRef.current = Date.now();
+    play(q);
+  }, [pairs, spreadMode, play]);
+
+  const submit = (quality: ChordQuality | null, inversion: number | null) => {
+    if (!question || quality === null || inversion === null || phase !== 'answering') return;
+    const qualityRight = quality === question.quality;
+    const inversionRight = inversion === question.inversion;
+    const correct = qualityRight && inversionRight;
+    recordAttempt({
+      trainer: 'inversion',
+      question: `${chordName(question.root, question.quality)} ${INVERSION_NAMES[question.inversion]}`,
+      expected: `${question.quality} ${INVERSION_NAMES[question.inversion]}`,
+      response: `${quality} ${INVERSION_NAMES[inversion]}`,
+      correct,
+      responseMs: Date.now() - answerStartRef.current,
+      score: (qualityRight ? 50 : 0) + (inversionRight ? 50 : 0),
+      settings: { qualities, inversions, spread: spreadMode, arpeggio },
+    });
+    setPhase('result');
+    setScore(s => ({ correct: s.correct + (correct ? 1 : 0), total: s.total + 1 }));
+    if (correct) timerRef.current = setTimeout(() => nextQuestion(), 1200);
+    else timerRef.current = setTimeout(() => play(question), 500);
+  };
+
+  const pickQuality = (q: ChordQuality) => { setPickedQuality(q); submit(q, pickedInversion); };
+  const pickInversion = (inv: number) => { setPickedInversion(inv); submit(pickedQuality, inv); };
+
+  const optionStyle = (isAnswer: boolean, isPicked: boolean): React.CSSProperties => {
+    if (phase === 'result' && isAnswer) return { background: 'rgba(16,185,129,0.1)', border: '1px solid rgba(16,185,129,0.3)', color: '#10b981' };
+    if (phase === 'result' && isPicked) return { background: 'rgba(239,68,68,0.1)', border: '1px solid rgba(239,68,68,0.3)', color: '#ef4444' };
+    if (isPicked) return { background: 'var(--primary-bg)', border: '1px solid var(--primary)', color: 'var(--primary-sub)' };
+    return { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-sub)', opacity: phase === 'result' ? 0.5 : 1 };
+  };
+
+  const correct = question && pickedQuality === question.quality && pickedInversion === question.inversion;
+  const answerText = question ? `${NOTE_STRINGS[((question.root % 12) + 12) % 12]} ${question.quality} · ${INVERSION_NAMES[question.inversion]}${question.spread ? '（開放）' : ''}` : '';
+
+  return (
+    <div className="flex flex-col max-w-xl mx-auto w-full px-4 py-6 animate-slide-up">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onBack} className="btn-ghost p-2 cursor-pointer" aria-label="返回設定">
+          <Settings size={18} />
+        </button>
+        <p className="text-[10px] text-tx-muted uppercase tracking-widest">和弦轉位</p>
+        <div className="text-right">
+          <span className="text-lg font-black" style={{ color: 'var(--primary)' }}>{score.correct}</span>
+          <span className="text-tx-muted mx-1 font-bold">/</span>
+          <span className="text-tx-sub font-bold">{score.total}</span>
+        </div>
+      </div>
+
+      {/* Settings (idle) */}
+      {phase === 'idle' && (
+        <div className="space-y-4 mb-6">
+          <div className="card p-4 space-y-4">
+            <div className="space-y-2">
+              <label className="label">和弦屬性</label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {INVERTIBLE_QUALITIES.map(q => (
+                  <button key={q} onClick={() => setQualities(prev => toggleIn(prev, q))} className={`chip text-[10px] ${qualities.includes(q) ? 'chip-active' : ''}`}>{q}</button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="label">包含的轉位</label>
+              <div className="flex gap-1.5">
+                {INVERSION_NAMES.map((name, inv) => (
+                  <button key={inv} onClick={() => setInversions(prev => toggleIn(prev, inv).sort())} className={`chip flex-1 justify-center text-[10px] ${inversions.includes(inv) ? 'chip-active' : ''}`}>{name}</button>
+                ))}
+              </div>
+              {inversions.includes(3) && !hasSeventh && <p className="text-[10px] text-tx-muted">第三轉位只適用於七和弦</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="label">配置</label>
+                <div className="flex gap-1.5">
+                  {SPREADS.map(s => (
+                    <button key={s.id} onClick={() => setSpreadMode(s.id)} className={`chip flex-1 justify-center ${spreadMode === s.id ? 'chip-active' : ''}`}>{s.label}</button>
+                  ))}
+                </div>
+              </div>
+              <button onClick={() => setArpeggio(v => !v)} className="flex items-center justify-between gap-2 cursor-pointer self-end pb-1">
+                <span className="text-xs text-tx-sub">分解播放</span>
+                <div className={`toggle-track ${arpeggio ? 'active' : ''}`}><div className="toggle-thumb"></div></div>
+              </button>
+            </div>
+            <p className="text-[11px] text-tx-muted leading-relaxed">聽和弦的最低音判斷轉位：原位為根音、第一轉位為三音、第二轉位為五音、第三轉位為七音。開放配置會把低音移低一個八度並拉開上方聲部。</p>
+          </div>
+
+          <div className="flex justify-center">
+            <button onClick={nextQuestion} disabled={pairs.length === 0}
+              className="flex items-center gap-2 px-8 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all disabled:opacity-40"
+              style={{ background: 'linear-gradient(135deg,var(--primary),var(--accent))', color: 'white' }}>
+              <Play size={16} /> 開始練習
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase !== 'idle' && question && (
+        <>
+          {/* Status */}
+          <div className="mb-5 px-4 py-2.5 rounded-xl flex items-center gap-2 text-sm"
+            style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.18)' }}>
+            {phase === 'answering' && (
+              <><Volume2 size={13} style={{ color: 'var(--primary)' }} className="shrink-0" />
+                <span style={{ color: 'var(--primary-sub)' }}>選出和弦屬性與轉位</span></>
+            )}
+            {phase === 'result' && correct && (
+              <><CheckCircle size={13} style={{ color: '#10b981' }} className="shrink-0" />
+                <span style={{ color: '#10b981' }}>正確！{answerText}</span></>
+            )}
+            {phase === 'result' && !correct && (
+              <><XCircle size={13} style={{ color: '#ef4444' }} className="shrink-0" />
+                <span style={{ color: '#ef4444' }}>正確答案：{answerText}</span></>
+            )}
+          </div>
+
+          <div className="flex justify-center mb-5">
+            <button onClick={() => play(question)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-80 active:scale-95 transition-all btn-ghost">
+              <Play size={14} /> 重播
+            </button>
+          </div>
+
+          {/* Quality */}
+          <div className="label mb-2">和弦屬性</div>
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            {qualities.map(q => (
+              <button key={q} disabled={phase === 'result'} onClick={() => pickQuality(q)}
+                className="h-11 rounded-xl font-bold text-xs transition-all cursor-pointer px-3"
+                style={optionStyle(q === question.quality, q === pickedQuality)}>
+                {q}
+              </button>
+            ))}
+          </div>
+
+          {/* Inversion */}
+          <div className="label mb-2">轉位</div>
+          <div className="grid grid-cols-4 gap-2 mb-6">
+            {inversions.map(inv => (
+              <button key={inv} disabled={phase === 'result'} onClick={() => pickInversion(inv)}
+                className="h-11 rounded-xl font-bold text-[11px] transition-all cursor-pointer px-1"
+                style={optionStyle(inv === question.inversion, inv === pickedInversion)}>
+                {INVERSION_NAMES[inv]}
+              </button>
+            ))}
+          </div>
+
+          {phase === 'result' && !correct && (
+            <div className="flex justify-center">
+              <button onClick={nextQuestion}
+                className="flex items-center gap-2 px-6 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all"
+                style={{ background: 'linear-gradient(135deg,var(--primary),var(--accent))', color: 'white' }}>
+                <SkipForward size={16} /> 下一題
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InversionTraining;
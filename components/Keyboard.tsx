@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { PolySynth, NOTE_STRINGS } from '../utils/audioEngine';
-import { Minus, Plus, Music, Zap, Infinity, Trash2, Hourglass, Play, CheckCircle2, RotateCcw, Trophy, Lightbulb, Settings2, Clock } from 'lucide-react';
+import { Minus, Plus, Music, Zap, Infinity, Trash2, Hourglass, Play, CheckCircle2, RotateCcw, Trophy, Lightbulb, Settings2, Clock, Cable } from 'lucide-react';
 import { ChordQuality } from '../types';
+import { CHORD_FAMILIES, chordIntervals, chordName, qualitiesInFamily } from '../utils/chords';
+import { getVoicingSettings, voiceChord } from '../utils/voicing';
+import { connectMidiInput, isMidiSupported, MidiConnection, MidiEvent } from '../utils/midiInput';
+import InstrumentPicker from './InstrumentPicker';
 
 const WHITE_KEY_WIDTH: number = 50;
 const BLACK_KEY_WIDTH: number = 32;
@@ -89,9 +93,12 @@ const KEY_BINDINGS = [
 
 const MAX_KEY_OFFSET: number = 28;
 
-interface KeyboardProps { isActive: boolean; volume: number; setVolume: (v: number) => void; }
+// 和弦鍵的三和弦（以按鍵為根音）
+const SMART_CHORD_INTERVALS: Record<string, number[]> = { M: [0, 4, 7], m: [0, 3, 7], d: [0, 3, 6] };
 
-const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
+interface KeyboardProps { isActive: boolean; }
+
+const Keyboard: React.FC<KeyboardProps> = ({ isActive }) => {
   const [sideTab, setSideTab] = useState<'pitch' | 'chord_quiz'>('pitch');
   const [transpose, setTranspose] = useState(0);
   const [activeKeys, setActiveKeys] = useState<Set<string>>(new Set());
@@ -115,15 +122,25 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
   const timerRef = useRef<number | null>(null);
   const isAdvancingRef = useRef(false);
   const cooldownRef = useRef(false);
+  // MIDI controller: notes currently held (or held by the sustain pedal), and notes released while sustaining
+  const [midiHeld, setMidiHeld] = useState<Set<number>>(new Set());
+  const [midiInputs, setMidiInputs] = useState<string[] | null>(null);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const midiConnRef = useRef<MidiConnection | null>(null);
+  const midiSustainedRef = useRef<Set<number>>(new Set());
+  const midiHandlerRef = useRef<(event: MidiEvent) => void>(() => {});
+  // 和弦鍵：依聲部進行配置，記下每個按鍵實際發出的音以便放開時停止
+  const smartChordNotesRef = useRef<Map<number, number[]>>(new Map());
+  const lastSmartChordRef = useRef<number[] | null>(null);
 
   useEffect(() => {
     synthRef.current = new PolySynth();
     const stored = localStorage.getItem('chord_quiz_high_score');
     if (stored) setHighScore(parseInt(stored));
-    return () => { synthRef.current?.stopAll(); if (timerRef.current) clearInterval(timerRef.current); };
+    return () => { synthRef.current?.stopAll(); midiConnRef.current?.disconnect(); if (timerRef.current) clearInterval(timerRef.current); };
   }, []);
 
-  useEffect(() => { if (synthRef.current) { synthRef.current.setVolume(volume); synthRef.current.decayMode = isDecayMode; } }, [volume, isDecayMode]);
+  useEffect(() => { if (synthRef.current) synthRef.current.decayMode = isDecayMode; }, [isDecayMode]);
   useEffect(() => { if (!isActive) fullReset(true); }, [isActive]);
 
   const getMidiNote = (offset: number) => 60 + offset + transpose;
@@ -131,7 +148,7 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
 
   const fullReset = (hardReset: boolean = false) => {
     synthRef.current?.stopAll();
-    if (hardReset) setActiveKeys(new Set());
+    if (hardReset) { setActiveKeys(new Set()); setMidiHeld(new Set()); midiSustainedRef.current.clear(); }
     setMouseSelection(new Set()); setShowResults(false); setTrainingActive(false); setQuizActive(false); setTargetMidiNotes([]); setCorrectChordNotes([]);
     isAdvancingRef.current = false; cooldownRef.current = false;
     if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
@@ -146,16 +163,19 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
   const currentAttempt = useMemo(() => {
     const combined = new Set(mouseSelection);
     keyboardMidis.forEach(m => combined.add(m));
+    // Held MIDI notes answer the chord quiz directly; in pitch training each note-on toggles the selection instead
+    if (quizActive) midiHeld.forEach(m => combined.add(m));
     return combined;
-  }, [mouseSelection, keyboardMidis]);
+  }, [mouseSelection, keyboardMidis, midiHeld, quizActive]);
 
   const playInternal = (offset: number, chordType?: string, isKeyboard: boolean = false) => {
     const midi = getMidiNote(offset);
     if (isSmartChord && chordType) {
-      let intervals = [0, 4, 7];
-      if (chordType === 'm') intervals = [0, 3, 7];
-      else if (chordType === 'd') intervals = [0, 3, 6];
-      intervals.forEach(i => synthRef.current?.play(midi + i));
+      const voiced = voiceChord(SMART_CHORD_INTERVALS[chordType].map(i => offset + i), getVoicingSettings(), lastSmartChordRef.current);
+      lastSmartChordRef.current = voiced;
+      const notes = voiced.map(n => getMidiNote(0) + n);
+      smartChordNotesRef.current.set(offset, notes);
+      notes.forEach(n => synthRef.current?.play(n));
     } else synthRef.current?.play(midi);
     if ((trainingActive || quizActive) && !showResults) {
       if (!isKeyboard) {
@@ -170,7 +190,10 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
   };
 
   const stopInternal = (offset: number, chordType?: string) => {
-    if (isSmartChord && chordType) { const root = getMidiNote(offset); [0, 3, 4, 6, 7].forEach(i => synthRef.current?.stop(root + i, false)); }
+    if (isSmartChord && chordType) {
+      (smartChordNotesRef.current.get(offset) ?? []).forEach(n => synthRef.current?.stop(n, false));
+      smartChordNotesRef.current.delete(offset);
+    }
     else synthRef.current?.stop(getMidiNote(offset), false);
   };
 
@@ -196,6 +219,58 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
     stopInternal(offset, chordType);
   };
 
+  // ── MIDI input ──
+  const releaseMidiNotes = (notes: number[]) => {
+    if (!isDecayMode) notes.forEach(n => synthRef.current?.stop(n, false));
+    setMidiHeld(prev => { const next = new Set(prev); notes.forEach(n => next.delete(n)); return next; });
+  };
+
+  const handleMidiEvent = (event: MidiEvent) => {
+    if (!isActive) return;
+    if (event.type === 'sustain') { setIsSustain(event.on); return; }
+    if (event.type === 'noteon') {
+      midiSustainedRef.current.delete(event.note);
+      synthRef.current?.play(event.note, event.velocity);
+      setMidiHeld(prev => new Set(prev).add(event.note));
+      if (trainingActive && !showResults) {
+        setMouseSelection(prev => {
+          const next = new Set(prev);
+          if (next.has(event.note)) next.delete(event.note);
+          else if (next.size < numNotesToPlay) next.add(event.note);
+          return next;
+        });
+      }
+      return;
+    }
+    if (isSustain) midiSustainedRef.current.add(event.note);
+    else releaseMidiNotes([event.note]);
+  };
+  midiHandlerRef.current = handleMidiEvent;
+
+  // Pedal up (or the 延音 toggle switched off) releases everything it was holding
+  useEffect(() => {
+    if (isSustain || midiSustainedRef.current.size === 0) return;
+    const released = Array.from<number>(midiSustainedRef.current);
+    midiSustainedRef.current.clear();
+    releaseMidiNotes(released);
+  }, [isSustain]);
+
+  const toggleMidi = async () => {
+    if (midiConnRef.current) {
+      midiConnRef.current.disconnect(); midiConnRef.current = null;
+      setMidiInputs(null); setMidiHeld(new Set()); midiSustainedRef.current.clear();
+      return;
+    }
+    try {
+      const conn = await connectMidiInput(e => midiHandlerRef.current(e), setMidiInputs);
+      midiConnRef.current = conn;
+      setMidiInputs(conn.inputs); setMidiError(null);
+    } catch (e) {
+      console.error('MIDI access error:', e);
+      setMidiError(isMidiSupported() ? '無法存取 MIDI 裝置' : '此瀏覽器不支援 Web MIDI');
+    }
+  };
+
   const handleClearAll = () => { synthRef.current?.stopAll(); if (trainingActive || quizActive) { setMouseSelection(new Set()); if (trainingActive) setShowResults(false); } };
 
   const generateTraining = () => {
@@ -226,17 +301,11 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
     do {
       if (qualitiesLen > 0) quality = qualities[Math.floor(Math.random() * qualitiesLen)];
       rootOffset = Math.floor(Math.random() * (maxKeyOffset + 1));
-      switch (quality) {
-        case ChordQuality.MAJOR: intervals = [0, 4, 7]; break; case ChordQuality.MINOR: intervals = [0, 3, 7]; break;
-        case ChordQuality.DIMINISHED: intervals = [0, 3, 6]; break; case ChordQuality.AUGMENTED: intervals = [0, 4, 8]; break;
-        case ChordQuality.MAJOR_7: intervals = [0, 4, 7, 11]; break; case ChordQuality.MINOR_7: intervals = [0, 3, 7, 10]; break;
-        case ChordQuality.DOMINANT_7: intervals = [0, 4, 7, 10]; break; case ChordQuality.HALF_DIM: intervals = [0, 3, 6, 10]; break;
-        case ChordQuality.DIMINISHED_7: intervals = [0, 3, 6, 9]; break; default: intervals = [0, 4, 7];
-      }
+      intervals = chordIntervals(quality);
       attempts++;
-      if (attempts > 200) { rootOffset = 0; quality = ChordQuality.MAJOR; intervals = [0, 4, 7]; break; }
+      if (attempts > 200) { rootOffset = 0; quality = ChordQuality.MAJOR; intervals = chordIntervals(quality); break; }
     } while (rootOffset + Math.max(...intervals) > maxKeyOffset);
-    setCurrentChordName(`${NOTE_STRINGS[rootOffset % 12]} ${quality}`);
+    setCurrentChordName(chordName(rootOffset, quality));
     setCorrectChordNotes(intervals.map(i => 60 + rootOffset + currentTranspose + i));
     setTimeLeft(quizTimeLimit); setMouseSelection(new Set()); setShowResults(false); synthRef.current?.stopAll();
     setTimeout(() => { isAdvancingRef.current = false; cooldownRef.current = false; }, 500);
@@ -280,18 +349,15 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
 
   const activeMidiMap = useMemo(() => {
     const map = new Set(keyboardMidis);
+    midiHeld.forEach(m => map.add(m));
     if (isSmartChord) {
       activeKeys.forEach(k => {
         const conf = KEY_BINDINGS.find(c => k === c.keyBind);
-        if (conf && conf.chordType) {
-          const root = getMidiNote(conf.offset);
-          let ints = [0, 4, 7]; if (conf.chordType === 'm') ints = [0, 3, 7]; else if (conf.chordType === 'd') ints = [0, 3, 6];
-          ints.forEach(i => map.add(root + i));
-        }
+        if (conf && conf.chordType) smartChordNotesRef.current.get(conf.offset)?.forEach(n => map.add(n));
       });
     }
     return map;
-  }, [keyboardMidis, activeKeys, isSmartChord, transpose]);
+  }, [keyboardMidis, midiHeld, activeKeys, isSmartChord, transpose]);
 
   const whiteKeys = PIANO_KEYS.filter(k => k.type === 'white');
   const blackKeys = PIANO_KEYS.filter(k => k.type === 'black');
@@ -330,6 +396,11 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
             </div>
           </div>
 
+          <div className="flex flex-col items-center p-2 rounded-xl w-32 sm:w-40 card-inner">
+            <span className="label mb-1 sm:mb-2">音色</span>
+            <InstrumentPicker compact />
+          </div>
+
           {[
             { id: 'decay', icon: Hourglass, label: '衰減', active: isDecayMode, action: () => setIsDecayMode(!isDecayMode), color: 'cyan' },
             { id: 'sustain', icon: Infinity, label: '延音', active: isSustain, action: () => setIsSustain(!isSustain), color: 'orange' },
@@ -349,6 +420,17 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
             <Trash2 size={16} className="mb-0.5 sm:w-5 sm:h-5" />
             <span className="text-[8px] sm:text-[10px] font-bold">重置</span>
           </button>
+
+          <button
+            onClick={toggleMidi}
+            title={midiInputs ? (midiInputs.length > 0 ? midiInputs.join('\n') : '尚未偵測到 MIDI 裝置') : '連接 MIDI 控制器'}
+            className="flex flex-col items-center justify-center p-2 rounded-xl transition-all w-14 h-14 sm:w-20 sm:h-20 cursor-pointer"
+            style={ctrlBtnStyle(midiInputs !== null, 'cyan')}
+          >
+            <Cable size={16} className="mb-0.5 sm:w-5 sm:h-5" />
+            <span className="text-[8px] sm:text-[10px] font-bold">{midiInputs ? `MIDI ${midiInputs.length}` : 'MIDI'}</span>
+          </button>
+          {midiError && <p className="w-full text-center text-[10px] text-danger">{midiError}</p>}
         </div>
 
         {/* Piano Keyboard */}
@@ -360,7 +442,7 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
                 const isSounding = activeMidiMap.has(midi);
                 const isInAttempt = currentAttempt.has(midi);
                 const isMouseToggled = mouseSelection.has(midi);
-                const isHardwareHold = keyboardMidis.has(midi);
+                const isHardwareHold = keyboardMidis.has(midi) || midiHeld.has(midi);
                 let displayStyle: React.CSSProperties = { background: 'var(--kbd-white)', borderBottom: '6px solid var(--kbd-white-border)' };
                 let textColor = 'var(--tx-muted)';
                 if (showResults) {
@@ -392,7 +474,7 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
               const isSounding = activeMidiMap.has(midi);
               const isInAttempt = currentAttempt.has(midi);
               const isMouseToggled = mouseSelection.has(midi);
-              const isHardwareHold = keyboardMidis.has(midi);
+              const isHardwareHold = keyboardMidis.has(midi) || midiHeld.has(midi);
               const leftOffset = ((k.posIndex ?? 0) * WHITE_KEY_WIDTH) - (BLACK_KEY_WIDTH / 2) + KEYBOARD_PADDING;
               let displayStyle: React.CSSProperties = { background: 'var(--kbd-black)', borderBottom: '6px solid var(--kbd-black-border)' };
               if (showResults) {
@@ -480,13 +562,20 @@ const Keyboard: React.FC<KeyboardProps> = ({ isActive, volume }) => {
               <div className="flex-1 flex flex-col space-y-4 py-1">
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 label"><Settings2 size={10}/> 設定</div>
-                  <div className="grid grid-cols-2 gap-1.5">
-                    {[ChordQuality.MAJOR, ChordQuality.MINOR, ChordQuality.DIMINISHED, ChordQuality.AUGMENTED, ChordQuality.MAJOR_7, ChordQuality.MINOR_7, ChordQuality.DOMINANT_7, ChordQuality.HALF_DIM, ChordQuality.DIMINISHED_7].map(q => {
-                      const isSelected = selectedQuizQualities.includes(q);
-                      return (
-                        <button key={q} onClick={() => setSelectedQuizQualities(prev => prev.includes(q) ? (prev.length > 1 ? prev.filter(i => i !== q) : prev) : [...prev, q])} className="text-[10px] font-bold py-1.5 px-1.5 rounded-lg truncate text-left cursor-pointer transition-all" style={isSelected ? { background: 'var(--primary-bg)', border: '1px solid var(--primary)', color: 'var(--primary-sub)' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-muted)' }}>{q}</button>
-                      );
-                    })}
+                  <div className="space-y-2 max-h-56 overflow-y-auto pr-1 no-scrollbar">
+                    {CHORD_FAMILIES.map(f => (
+                      <div key={f.id} className="space-y-1">
+                        <div className="text-[9px] font-bold text-tx-muted">{f.label}</div>
+                        <div className="grid grid-cols-2 gap-1.5">
+                          {qualitiesInFamily(f.id).map(q => {
+                            const isSelected = selectedQuizQualities.includes(q);
+                            return (
+                              <button key={q} onClick={() => setSelectedQuizQualities(prev => prev.includes(q) ? (prev.length > 1 ? prev.filter(i => i !== q) : prev) : [...prev, q])} className="text-[10px] font-bold py-1.5 px-1.5 rounded-lg truncate text-left cursor-pointer transition-all" style={isSelected ? { background: 'var(--primary-bg)', border: '1px solid var(--primary)', color: 'var(--primary-sub)' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-muted)' }}>{q}</button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 <div className="space-y-2">
@@ -0,0 +1,256 @@
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Settings, Play, CheckCircle, XCircle, Delete } from 'lucide-react';
+import { MelodyQuestion, MelodyRhythm, ScaleType } from '../types';
+import { NOTE_STRINGS, PlaybackHandle, playMelody, playNotes } from '../utils/audioEngine';
+import { MELODY_RANGES, MELODY_RHYTHMS, cadenceChord, clefFor, generateMelody, gradeMelody } from '../utils/melody';
+import { midiLabel } from '../utils/tunings';
+import { recordAttempt } from '../utils/practiceHistory';
+import StaffDisplay, { StaffNote } from './StaffDisplay';
+import MiniPiano from './MiniPiano';
+
+interface Props { onBack: () => void; }
+
+type Phase = 'idle' | 'answering' | 'result';
+
+const SCALE_CHOICES = [ScaleType.MAJOR, ScaleType.NATURAL_MINOR, ScaleType.HARMONIC_MINOR, ScaleType.DORIAN, ScaleType.MIXOLYDIAN, ScaleType.PENTATONIC_MAJOR];
+const LENGTHS = [4, 6, 8];
+
+const MelodicDictation: React.FC<Props> = ({ onBack }) => {
+  const [scale, setScale] = useState<ScaleType>(ScaleType.MAJOR);
+  const [length, setLength] = useState(6);
+  const [rangeId, setRangeId] = useState('treble');
+  const [rhythm, setRhythm] = useState<MelodyRhythm>('simple');
+  const [bpm, setBpm] = useState(80);
+  const [giveFirst, setGiveFirst] = useState(true);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [question, setQuestion] = useState<MelodyQuestion | null>(null);
+  const [answer, setAnswer] = useState<(number | null)[]>([]);
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState<number | null>(null);
+  const [results, setResults] = useState<boolean[] | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  const previewRef = useRef<PlaybackHandle | null>(null);
+  const answerStartRef = useRef(0);
+
+  useEffect(() => () => { playbackRef.current?.stop(); previewRef.current?.stop(); }, []);
+
+  const range = MELODY_RANGES.find(r => r.id === rangeId) ?? MELODY_RANGES[0];
+
+  // Stops whatever is still sounding so replays never overlap
+  const play = useCallback((q: MelodyQuestion) => {
+    playbackRef.current?.stop();
+    const handle = playMelody(q.notes, bpm, cadenceChord(q), { onProgress: step => setPlaying(step) });
+    playbackRef.current = handle;
+    handle.ended.then(() => { if (playbackRef.current === handle) setPlaying(null); });
+  }, [bpm]);
+
+  const next = () => {
+    const q = generateMelody({ scale, length, range, rhythm });
+    const first = giveFirst ? q.notes[0].midi : null;
+    setQuestion(q);
+    setAnswer(q.notes.map((_, i) => (i === 0 ? first : null)));
+    setCursor(giveFirst ? 1 : 0);
+    setResults(null);
+    setPhase('answering');
+    answerStartRef.current = Date.now();
+    play(q);
+  };
+
+  const enter = (midi: number) => {
+    if (phase !== 'answering' || !question) return;
+    previewRef.current?.stop();
+    previewRef.current = playNotes([midi], 0.5);
+    const nextAnswer = answer.map((m, i) => (i === cursor ? midi : m));
+    setAnswer(nextAnswer);
+    const firstEmpty = nextAnswer.findIndex((m, i) => i > cursor && m === null);
+    setCursor(firstEmpty >= 0 ? firstEmpty : Math.min(cursor + 1, question.notes.length - 1));
+  };
+
+  // Raises / lowers the note under the cursor, or the one just entered
+  const shift = (semis: number) => {
+    const idx = answer[cursor] !== null ? cursor : cursor - 1;
+    const midi = answer[idx];
+    if (phase !== 'answering' || idx < (giveFirst ? 1 : 0) || midi === null || midi === undefined) return;
+    previewRef.current?.stop();
+    previewRef.current = playNotes([midi + semis], 0.5);
+    setAnswer(answer.map((m, i) => (i === idx ? midi + semis : m)));
+  };
+
+  const erase = () => {
+    if (phase !== 'answering') return;
+    const minIdx = giveFirst ? 1 : 0;
+    const idx = answer[cursor] !== null ? cursor : Math.max(minIdx, cursor - 1);
+    setAnswer(answer.map((m, i) => (i === idx ? null : m)));
+    setCursor(idx);
+  };
+
+  const submit = () => {
+    if (!question || answer.some(m => m === null)) return;
+    const graded = gradeMelody(question, answer);
+    const hits = graded.filter(Boolean).length;
+    setResults(graded);
+    setPhase('result');
+    const allCorrect = hits === graded.length;
+    recordAttempt({
+      trainer: 'melody',
+      question: `${NOTE_STRINGS[question.tonic % 12]} ${question.scale} · ${question.notes.length} 音`,
+      expected: question.notes.map(n => midiLabel(n.midi)).join(' '),
+      response: answer.map(m => midiLabel(m!)).join(' '),
+      correct: allCorrect,
+      responseMs: Date.now() - answerStartRef.current,
+      score: Math.round((hits / graded.length) * 100),
+      settings: { scale, length, range: range.id, rhythm, bpm, giveFirst },
+    });
+    setScore(s => ({ correct: s.correct + (allCorrect ? 1 : 0), total: s.total + 1 }));
+  };
+
+  useEffect(() => {
+    if (phase !== 'answering') return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Backspace') { e.preventDefault(); erase(); }
+      else if (e.key === 'ArrowLeft') setCursor(c => Math.max(giveFirst ? 1 : 0, c - 1));
+      else if (e.key === 'ArrowRight' && question) setCursor(c => Math.min(question.notes.length - 1, c + 1));
+      else if (e.key === 'ArrowUp') { e.preventDefault(); shift(1); }
+      else if (e.key === 'ArrowDown') { e.preventDefault(); shift(-1); }
+      else if (e.key === 'Enter') submit();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const staffNotes: StaffNote[] = question ? question.notes.map((n, i) => ({
+    midi: answer[i] ?? null,
+    beats: n.beats,
+    status: results ? (results[i] ? 'correct' : 'wrong') : undefined,
+    expected: n.midi,
+  })) : [];
+  const hits = results?.filter(Boolean).length ?? 0;
+  const current = answer[cursor];
+
+  return (
+    <div className="flex flex-col max-w-xl lg:max-w-3xl mx-auto w-full px-4 py-6 animate-slide-up">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={() => { playbackRef.current?.stop(); onBack(); }} className="btn-ghost p-2 cursor-pointer" aria-label="返回設定">
+          <Settings size={18} />
+        </button>
+        <p className="text-[10px] text-tx-muted uppercase tracking-widest">旋律聽寫</p>
+        <div className="text-right">
+          <span className="text-lg font-black" style={{ color: 'var(--primary)' }}>{score.correct}</span>
+          <span className="text-tx-muted mx-1 font-bold">/</span>
+          <span className="text-tx-sub font-bold">{score.total}</span>
+        </div>
+      </div>
+
+      {/* Settings (idle) */}
+      {phase === 'idle' && (
+        <div className="space-y-4">
+          <div className="card p-4 space-y-4">
+            <div className="space-y-2">
+              <label className="label">音階</label>
+              <div className="grid grid-cols-3 gap-1.5">
+                {SCALE_CHOICES.map(s => (
+                  <button key={s} onClick={() => setScale(s)} className={`chip justify-center text-[10px] ${scale === s ? 'chip-active' : ''}`}>{s}</button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="label">長度</label>
+                <div className="flex gap-1.5">
+                  {LENGTHS.map(n => (
+                    <button key={n} onClick={() => setLength(n)} className={`chip flex-1 justify-center ${length === n ? 'chip-active' : ''}`}>{n} 音</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="label">音域</label>
+                <div className="flex gap-1.5">
+                  {MELODY_RANGES.map(r => (
+                    <button key={r.id} onClick={() => setRangeId(r.id)} className={`chip flex-1 justify-center text-[10px] ${rangeId === r.id ? 'chip-active' : ''}`}>{r.label}</button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="label">節奏</label>
+              <div className="flex gap-1.5">
+                {MELODY_RHYTHMS.map(r => (
+                  <button key={r.id} onClick={() => setRhythm(r.id)} className={`chip flex-1 justify-center ${rhythm === r.id ? 'chip-active' : ''}`}>{r.label}</button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="label">速度</span>
+                <input type="range" min="50" max="140" step="5" value={bpm} onChange={e => setBpm(parseInt(e.target.value))} className="w-28 accent-primary cursor-pointer" />
+                <span className="text-xs font-mono text-tx-muted">{bpm} BPM</span>
+              </div>
+              <button onClick={() => setGiveFirst(v => !v)} className="flex items-center gap-2 cursor-pointer">
+                <span className="text-xs text-tx-sub">提示首音</span>
+                <div className={`toggle-track ${giveFirst ? 'active' : ''}`}><div className="toggle-thumb"></div></div>
+              </button>
+            </div>
+            <p className="text-[11px] text-tx-muted leading-relaxed">先播放主和弦定調，再播放旋律。節奏已標示在譜上，只需填入音高：點擊五線譜（自然音）或下方鋼琴輸入，↑↓ 升降半音，Backspace 刪除。</p>
+          </div>
+          <div className="flex justify-center">
+            <button onClick={next} className="flex items-center gap-2 px-8 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all" style={{ background: 'linear-gradient(135deg,var(--primary),var(--accent))', color: 'white' }}>
+              <Play size={16} /> 開始練習
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase !== 'idle' && question && (
+        <div className="space-y-4">
+          <div className="px-4 py-2.5 rounded-xl flex items-center gap-2 text-sm" style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.18)' }}>
+            {phase === 'answering' && <span style={{ color: 'var(--primary-sub)' }}>{NOTE_STRINGS[question.tonic % 12]} {question.scale} · 請寫下聽到的旋律</span>}
+            {phase === 'result' && (hits === question.notes.length
+              ? <><CheckCircle size={13} style={{ color: '#10b981' }} className="shrink-0" /><span style={{ color: '#10b981' }}>全部正確！</span></>
+              : <><XCircle size={13} style={{ color: '#ef4444' }} className="shrink-0" /><span style={{ color: '#ef4444' }}>答對 {hits} / {question.notes.length} 音，綠色淡音符為正確答案</span></>)}
+          </div>
+
+          <div className="card p-3">
+            <StaffDisplay
+              notes={staffNotes}
+              clef={clefFor(range)}
+              preferFlats={question.preferFlats}
+              cursor={phase === 'answering' ? cursor : null}
+              playing={playing}
+              onPick={phase === 'answering' ? enter : undefined}
+            />
+          </div>
+
+          <div className="flex items-center justify-center gap-2">
+            <button onClick={() => play(question)} className="btn-ghost flex items-center gap-2 px-4 py-2 text-xs font-bold"><Play size={13} /> 重播</button>
+            {phase === 'answering' && (
+              <>
+                <button onClick={() => shift(1)} className="btn-ghost px-3 py-2 text-sm font-bold" aria-label="升半音">♯</button>
+                <button onClick={() => shift(-1)} className="btn-ghost px-3 py-2 text-sm font-bold" aria-label="降半音">♭</button>
+                <button onClick={erase} className="btn-ghost px-3 py-2" aria-label="刪除"><Delete size={14} /></button>
+              </>
+            )}
+          </div>
+
+          <MiniPiano
+            low={range.low}
+            high={range.high}
+            onPress={enter}
+            highlight={phase === 'answering' && current !== null && current !== undefined ? { [current]: 'linear-gradient(180deg, #e0c8a8, #d4a87e)' } : {}}
+          />
+
+          {phase === 'answering' ? (
+            <button disabled={answer.some(m => m === null)} onClick={submit} className="w-full btn-primary py-3.5 text-sm font-bold disabled:opacity-40">提交答案</button>
+          ) : (
+            <button onClick={next} className="w-full btn-primary py-3.5 text-sm font-bold">下一題</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MelodicDictation;
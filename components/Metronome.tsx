@@ -185,12 +185,9 @@ const Metronome: React.FC<MetronomeProps> = ({ volume, setVolume }) => {
 
   useEffect(() => {
     engineRef.current = new MetronomeEngine((step) => setCurrentStepIndex(step));
-    engineRef.current.setVolume(volume);
     return () => engineRef.current?.stop();
   }, []);
 
-  useEffect(() => { if (engineRef.current) engineRef.current.setVolume(volume); }, [volume]);
-
   useEffect(() => {
     const wasZero = prevStepRef.current === 0;
     prevStepRef.current = currentStepIndex;
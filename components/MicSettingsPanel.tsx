@@ -0,0 +1,77 @@
+
+import React, { useState, useEffect } from 'react';
+import { MicDevice, MicSettings, getMicSettings, setMicSettings, subscribeMicSettings, listMicDevices } from '../utils/micInput';
+
+interface Props {
+  // Current input RMS; the meter is hidden when omitted
+  level?: number;
+}
+
+const PROCESSING: { key: keyof Omit<MicSettings, 'deviceId'>; label: string }[] = [
+  { key: 'echoCancellation', label: '回音消除' },
+  { key: 'noiseSuppression', label: '降噪' },
+  { key: 'autoGainControl', label: '自動增益' },
+];
+
+const MicSettingsPanel: React.FC<Props> = ({ level }) => {
+  const [settings, setSettings] = useState(getMicSettings());
+  const [devices, setDevices] = useState<MicDevice[]>([]);
+
+  useEffect(() => subscribeMicSettings(() => setSettings(getMicSettings())), []);
+
+  // Device labels only appear once mic permission is granted, so list again when the input goes live
+  const live = level !== undefined;
+  useEffect(() => {
+    const refresh = () => { listMicDevices().then(setDevices).catch(() => setDevices([])); };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [live]);
+
+  // A saved device that has since disappeared falls back to the default input
+  const selected = devices.some(d => d.deviceId === settings.deviceId) ? settings.deviceId! : '';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="label shrink-0">輸入裝置</span>
+        <select
+          value={selected}
+          onChange={e => setMicSettings({ deviceId: e.target.value || null })}
+          className="flex-1 min-w-0 input-field p-1.5 text-xs cursor-pointer"
+          aria-label="輸入裝置"
+        >
+          <option value="">系統預設</option>
+          {devices.filter(d => d.deviceId && d.deviceId !== 'default').map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+        </select>
+      </div>
+
+      {level !== undefined && (
+        <div className="h-1.5 w-full rounded-full overflow-hidden" style={{ background: 'var(--bg-hover)' }}>
+          <div
+            className="h-full rounded-full transition-all duration-75"
+            style={{ width: `${Math.min(100, level * 500)}%`, background: 'linear-gradient(90deg, var(--primary), var(--accent))' }}
+          />
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        {PROCESSING.map(p => (
+          <button
+            key={p.key}
+            onClick={() => setMicSettings({ [p.key]: !settings[p.key] })}
+            className="w-full flex items-center justify-between cursor-pointer"
+          >
+            <span className="text-xs text-tx-sub">{p.label}</span>
+            <div className={`toggle-track ${settings[p.key] ? 'active' : ''}`}>
+              <div className="toggle-thumb"></div>
+            </div>
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-tx-muted leading-relaxed">瀏覽器的語音處理會扭曲音高與音量讀數，練習樂器或歌唱時建議保持關閉。</p>
+    </div>
+  );
+};
+
+export default MicSettingsPanel;
@@ -0,0 +1,61 @@
+
+import React from 'react';
+import { NOTE_STRINGS } from '../utils/audioEngine';
+
+interface Props {
+  low: number;    // MIDI; rounded down to a white key
+  high: number;
+  onPress: (midi: number) => void;
+  highlight?: Record<number, string>;  // MIDI → key colour
+}
+
+const WHITE_W = 28;
+const BLACK_W = 18;
+const HEIGHT = 110;
+const BLACK_PCS = [1, 3, 6, 8, 10];
+
+const isBlack = (midi: number) => BLACK_PCS.includes(((midi % 12) + 12) % 12);
+
+// Compact answer-input piano in the Keyboard tab's key style
+const MiniPiano: React.FC<Props> = ({ low, high, onPress, highlight = {} }) => {
+  const start = isBlack(low) ? low - 1 : low;
+  const end = isBlack(high) ? high + 1 : high;
+  const whites: number[] = [];
+  for (let m = start; m <= end; m++) if (!isBlack(m)) whites.push(m);
+
+  return (
+    <div className="w-full overflow-x-auto no-scrollbar flex justify-center">
+      <div className="relative shrink-0" style={{ width: whites.length * WHITE_W, height: HEIGHT }}>
+        {whites.map((m, i) => (
+          <button
+            key={m}
+            onPointerDown={e => { e.preventDefault(); onPress(m); }}
+            className="absolute top-0 rounded-b-md flex items-end justify-center pb-1.5 cursor-pointer select-none transition-all duration-75"
+            style={{
+              left: i * WHITE_W, width: WHITE_W, height: HEIGHT,
+              background: highlight[m] ?? 'var(--kbd-white)',
+              borderBottom: '5px solid var(--kbd-white-border)',
+              borderLeft: '1px solid var(--bd)', borderRight: '1px solid var(--bd)',
+            }}
+          >
+            {m % 12 === 0 && <span className="text-[8px] font-bold text-tx-muted pointer-events-none">{NOTE_STRINGS[0]}{Math.floor(m / 12) - 1}</span>}
+          </button>
+        ))}
+        {whites.map((m, i) => isBlack(m + 1) && m + 1 <= end && (
+          <button
+            key={m + 1}
+            onPointerDown={e => { e.preventDefault(); onPress(m + 1); }}
+            className="absolute top-0 rounded-b z-10 cursor-pointer select-none shadow-lg transition-all duration-75"
+            style={{
+              left: (i + 1) * WHITE_W - BLACK_W / 2, width: BLACK_W, height: HEIGHT * 0.6,
+              background: highlight[m + 1] ?? 'var(--kbd-black)',
+              borderBottom: '4px solid var(--kbd-black-border)',
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MiniPiano;
@@ -0,0 +1,78 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { SlidersVertical } from 'lucide-react';
+import { MIXER_CHANNELS, MixerChannel, getMixerState, setChannelGain, setChannelMute, setChannelSolo, subscribeMixer } from '../utils/audioEngine';
+
+const CHANNEL_LABELS: Record<MixerChannel, string> = {
+  metronome: '節拍器',
+  synth: '鍵盤',
+  trainers: '聽力訓練',
+  drone: '持續音',
+};
+
+const MixerPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState(getMixerState());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeMixer(() => setState(getMixerState())), []);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => { if (!panelRef.current?.contains(e.target as Node)) setOpen(false); };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const anySolo = MIXER_CHANNELS.some(ch => state[ch].solo);
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-8 h-8 rounded-lg flex items-center justify-center cursor-pointer transition-colors shrink-0"
+        style={{ background: open ? 'var(--primary-bg)' : 'var(--input-bg)', border: `1px solid ${open ? 'var(--primary)' : 'var(--bd)'}` }}
+        aria-label="混音器"
+      >
+        <SlidersVertical size={15} className="text-tx-sub" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-10 w-64 card p-3 space-y-2.5 animate-fade-in z-50">
+          <div className="label">混音器</div>
+          {MIXER_CHANNELS.map(ch => {
+            const st = state[ch];
+            const silent = anySolo ? !st.solo : st.mute;
+            return (
+              <div key={ch} className="space-y-1" style={{ opacity: silent ? 0.45 : 1 }}>
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-bold text-tx-sub">{CHANNEL_LABELS[ch]}</span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setChannelMute(ch, !st.mute)}
+                      className="w-6 h-5 rounded text-[9px] font-black cursor-pointer transition-all"
+                      style={st.mute ? { background: '#ef4444', color: 'white' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-muted)' }}
+                      aria-label={`${CHANNEL_LABELS[ch]}靜音`}
+                    >M</button>
+                    <button
+                      onClick={() => setChannelSolo(ch, !st.solo)}
+                      className="w-6 h-5 rounded text-[9px] font-black cursor-pointer transition-all"
+                      style={st.solo ? { background: '#f59e0b', color: 'white' } : { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-muted)' }}
+                      aria-label={`${CHANNEL_LABELS[ch]}獨奏`}
+                    >S</button>
+                  </div>
+                </div>
+                <input
+                  type="range" min="0" max="1.5" step="0.05" value={st.gain}
+                  onChange={e => setChannelGain(ch, parseFloat(e.target.value))}
+                  className="w-full h-1 cursor-pointer"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MixerPanel;
@@ -2,11 +2,11 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Settings, Play, CheckCircle, RotateCcw, Target } from 'lucide-react';
 import { PitchMatchPhase, PitchMatchQuestion, PitchMatchResult } from '../types';
-import { NOTE_STRINGS, getNoteFromFrequency, playPitchTone, createPreviewOscillator } from '../utils/audioEngine';
+import { NOTE_STRINGS, getNoteFromFrequency, playPitchTone, createPreviewOscillator, midiToFrequency } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
 
 interface Props {
   onBack: () => void;
-  volume?: number;
 }
 
 const MIDI_MIN = 36;
@@ -14,9 +14,7 @@ const MIDI_MAX = 84;
 const QUESTION_MIDI_MIN = 48;
 const QUESTION_MIDI_MAX = 83;
 
-const midiToFreq = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
-
-const PitchMatchingTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
+const PitchMatchingTraining: React.FC<Props> = ({ onBack }) => {
   const [phase, setPhase] = useState<PitchMatchPhase>('idle');
   const [question, setQuestion] = useState<PitchMatchQuestion | null>(null);
   const [userMidi, setUserMidi] = useState(60);
@@ -27,6 +25,7 @@ const PitchMatchingTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
 
   const previewOscRef = useRef<ReturnType<typeof createPreviewOscillator> | null>(null);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const answerStartRef = useRef(0);
 
   useEffect(() => {
     return () => {
@@ -43,7 +42,7 @@ const PitchMatchingTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
 
   const buildQuestion = (): PitchMatchQuestion => {
     const targetMidi = QUESTION_MIDI_MIN + Math.floor(Math.random() * (QUESTION_MIDI_MAX - QUESTION_MIDI_MIN + 1));
-    const targetFreq = midiToFreq(targetMidi);
+    const targetFreq = midiToFrequency(targetMidi);
     const noteIndex = ((targetMidi % 12) + 12) % 12;
     const octave = Math.floor(targetMidi / 12) - 1;
     return { targetMidi, targetFreq, targetLabel: `${NOTE_STRINGS[noteIndex]}${octave}` };
@@ -56,25 +55,25 @@ const PitchMatchingTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     const q = buildQuestion();
     setQuestion(q);
     setPhase('playing');
-    playPitchTone(q.targetFreq, 2.5, volume);
-    timerRef.current = setTimeout(() => setPhase('answering'), 2700);
-  }, [volume, stopPreview]);
+    playPitchTone(q.targetFreq, 2.5);
+    timerRef.current = setTimeout(() => { setPhase('answering'); answerStartRef.current = Date.now(); }, 2700);
+  }, [stopPreview]);
 
   const handleReplay = useCallback(() => {
     if (!question) return;
-    playPitchTone(question.targetFreq, 2.5, volume);
-  }, [question, volume]);
+    playPitchTone(question.targetFreq, 2.5);
+  }, [question]);
 
   const handleSliderChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const midi = parseFloat(e.target.value);
     setUserMidi(midi);
-    const freq = midiToFreq(midi);
+    const freq = midiToFrequency(midi);
     if (!previewOscRef.current) {
-      previewOscRef.current = createPreviewOscillator(volume);
+      previewOscRef.current = createPreviewOscillator();
       setIsPreviewOn(true);
     }
     previewOscRef.current.setFrequency(freq);
-  }, [volume]);
+  }, []);
 
   const handleSliderRelease = useCallback(() => {
     stopPreview();
@@ -83,18 +82,29 @@ const PitchMatchingTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const handleSubmit = useCallback(() => {
     if (!question) return;
     stopPreview();
-    const userFreq = midiToFreq(userMidi);
+    const userFreq = midiToFrequency(userMidi);
     const centsError = 1200 * Math.log2(userFreq / question.targetFreq);
     const score = Math.max(0, Math.round(100 * (1 - Math.abs(centsError) / 100)));
     const r: PitchMatchResult = { targetMidi: question.targetMidi, userFreq, centsError, score };
     setResult(r);
+    const userNote = getNoteFromFrequency(userFreq);
+    recordAttempt({
+      trainer: 'pitch',
+      question: question.targetLabel,
+      expected: question.targetLabel,
+      response: `${userNote.note}${userNote.octave} (${centsError > 0 ? '+' : ''}${Math.round(centsError)}¢)`,
+      correct: score >= 80,
+      responseMs: Date.now() - answerStartRef.current,
+      score,
+      settings: {},
+    });
     setTotal(t => t + 1);
     if (score >= 80) setCorrect(c => c + 1);
     setPhase('result');
   }, [question, userMidi, stopPreview]);
 
   // Current slider display info
-  const sliderFreq = midiToFreq(userMidi);
+  const sliderFreq = midiToFrequency(userMidi);
   const sliderNote = getNoteFromFrequency(sliderFreq);
 
   // Score color
@@ -0,0 +1,163 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, BarChart3, Trash2 } from 'lucide-react';
+import { PracticeAttempt, TrainerMode, IntervalQuality, ChordQuality, ScaleType, PROGRESSIONS } from '../types';
+import { loadAttempts, clearHistory, summarizeAttempts, weeklyProgress } from '../utils/practiceHistory';
+import ConfusionMatrix from './ConfusionMatrix';
+
+interface Props { onBack: () => void; }
+
+const TRAINER_LABELS: Record<TrainerMode, string> = {
+  note: '聽音', interval: '音程', chord: '和弦', vocal: '視唱', frequency: '頻率 EQ',
+  rhythm: '節奏', progression: '進行', scale: '音階', pitch: '音高匹配', singing: '歌唱', melody: '旋律聽寫', inversion: '轉位', harmony: '和聲聽寫',
+};
+
+// Modes whose answers are a single item from a fixed set, so a confusion matrix is meaningful
+const MATRIX_ORDER: Partial<Record<TrainerMode, string[]>> = {
+  interval: Object.values(IntervalQuality),
+  chord: Object.values(ChordQuality),
+  scale: Object.values(ScaleType),
+  progression: PROGRESSIONS.map(p => p.label),
+};
+
+const INTERVAL_SHORT: Record<string, string> = Object.fromEntries(Object.entries(IntervalQuality).map(([k, v]) => [v, k]));
+
+const accuracyColor = (acc: number) => acc >= 0.8 ? '#10b981' : acc >= 0.5 ? '#f59e0b' : '#ef4444';
+
+const PracticeStats: React.FC<Props> = ({ onBack }) => {
+  const [attempts, setAttempts] = useState<PracticeAttempt[] | null>(null);
+  const [filter, setFilter] = useState<TrainerMode | 'all'>('all');
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    loadAttempts().then(setAttempts).catch(err => {
+      console.error('loadAttempts error:', err);
+      setLoadError(true);
+    });
+  }, []);
+
+  const filtered = useMemo(
+    () => (attempts ?? []).filter(a => filter === 'all' || a.trainer === filter),
+    [attempts, filter]
+  );
+  const summary = useMemo(() => summarizeAttempts(attempts ?? []), [attempts]);
+  const weeks = useMemo(() => weeklyProgress(filtered, 8), [filtered]);
+  const recent = useMemo(() => [...filtered].reverse().slice(0, 20), [filtered]);
+  const practiced = (Object.keys(TRAINER_LABELS) as TrainerMode[]).filter(t => summary[t]);
+
+  const handleClear = async () => {
+    if (!confirm('確定要清除所有練習紀錄嗎？')) return;
+    try {
+      await clearHistory();
+      setAttempts([]);
+    } catch (err) {
+      console.error('clearHistory error:', err);
+      alert('無法清除練習紀錄，請稍後再試。');
+    }
+  };
+
+  return (
+    <div className="max-w-xl lg:max-w-4xl mx-auto p-4 sm:p-6 space-y-5 animate-slide-up">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="btn-ghost p-2 cursor-pointer" aria-label="返回設定">
+          <ArrowLeft size={18} />
+        </button>
+        <h2 className="text-xl sm:text-2xl font-extrabold gradient-text flex items-center gap-2"><BarChart3 size={20} /> 練習紀錄</h2>
+        <button onClick={handleClear} disabled={!attempts?.length} className="btn-ghost p-2 cursor-pointer disabled:opacity-30" aria-label="清除紀錄">
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {loadError ? (
+        <div className="text-center p-6 rounded-xl" style={{ background: 'rgba(239,68,68,0.06)', border: '1px dashed rgba(239,68,68,0.3)' }}>
+          <p className="text-xs font-bold text-danger">無法讀取練習紀錄</p>
+          <p className="text-[11px] text-tx-muted mt-1">瀏覽器的 IndexedDB 無法使用，可能是無痕模式、儲存空間不足或資料庫被其他分頁鎖定。</p>
+        </div>
+      ) : attempts === null ? (
+        <div className="text-center text-xs text-tx-muted py-10">載入中…</div>
+      ) : attempts.length === 0 ? (
+        <div className="text-center p-6 rounded-xl" style={{ background: 'var(--input-bg)', border: '1px dashed var(--bd-strong)' }}>
+          <p className="label">尚無練習紀錄，開始練習後會自動保存</p>
+        </div>
+      ) : (
+        <>
+          {/* Per-trainer summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-3 gap-2.5">
+            {practiced.map(t => {
+              const s = summary[t]!;
+              return (
+                <div key={t} className="card p-3 space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-xs font-bold text-tx">{TRAINER_LABELS[t]}</span>
+                    <span className="text-[10px] text-tx-muted">{s.total} 題</span>
+                  </div>
+                  <div className="text-2xl font-black" style={{ color: accuracyColor(s.accuracy) }}>{Math.round(s.accuracy * 100)}%</div>
+                  <div className="text-[10px] text-tx-muted">平均 {(s.avgResponseMs / 1000).toFixed(1)} 秒 · {new Date(s.lastPracticed).toLocaleDateString()}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Filter */}
+          <div className="flex flex-wrap gap-1.5">
+            {(['all', ...practiced] as const).map(t => (
+              <button key={t} onClick={() => setFilter(t)} className={`chip ${filter === t ? 'chip-active' : ''}`}>
+                {t === 'all' ? '全部' : TRAINER_LABELS[t]}
+              </button>
+            ))}
+          </div>
+
+          {/* Weekly progress */}
+          <div className="card p-4 space-y-3">
+            <div className="label">每週正確率（近 8 週）</div>
+            <div className="flex items-end gap-2 h-32">
+              {weeks.map(w => {
+                const acc = w.total > 0 ? w.correct / w.total : 0;
+                const d = new Date(w.weekStart);
+                return (
+                  <div key={w.weekStart} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                    <span className="text-[9px] font-mono text-tx-muted">{w.total > 0 ? `${Math.round(acc * 100)}%` : ''}</span>
+                    <div className="w-full rounded-t-md transition-all duration-500" style={{ height: `${Math.max(2, acc * 100)}%`, background: w.total > 0 ? accuracyColor(acc) : 'var(--bg-hover)', opacity: w.total > 0 ? 0.8 : 1 }} />
+                    <span className="text-[9px] text-tx-muted">{d.getMonth() + 1}/{d.getDate()}</span>
+                    <span className="text-[9px] text-tx-muted">{w.total}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Weakness analytics */}
+          {filter !== 'all' && MATRIX_ORDER[filter] && (
+            <div className="card p-4">
+              <ConfusionMatrix
+                attempts={filtered}
+                order={MATRIX_ORDER[filter]}
+                shortLabel={filter === 'interval' ? (l => INTERVAL_SHORT[l] ?? l) : (l => l.length > 8 ? `${l.slice(0, 7)}…` : l)}
+              />
+            </div>
+          )}
+
+          {/* Recent attempts */}
+          <div className="card p-4 space-y-2">
+            <div className="label">最近作答</div>
+            <div className="space-y-1 max-h-72 overflow-y-auto pr-1 no-scrollbar">
+              {recent.map(a => (
+                <div key={a.id} className="flex items-center justify-between gap-2 text-[11px] py-1.5 px-2 rounded-lg" style={{ background: 'var(--input-bg)' }}>
+                  <span className="font-bold shrink-0" style={{ color: a.correct ? '#10b981' : '#ef4444' }}>{a.correct ? '✓' : '✗'}</span>
+                  <span className="text-tx-muted shrink-0">{TRAINER_LABELS[a.trainer]}</span>
+                  <span className="flex-1 truncate text-tx-sub">{a.question}</span>
+                  {!a.correct && <span className="truncate text-danger max-w-[35%]">{a.response}</span>}
+                  {a.score !== undefined && <span className="font-mono text-tx-muted shrink-0">{Math.round(a.score)}</span>}
+                  <span className="font-mono text-tx-muted shrink-0">{(a.responseMs / 1000).toFixed(1)}s</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PracticeStats;
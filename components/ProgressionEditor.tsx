@@ -0,0 +1,113 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { ProgressionDef } from '../types';
+import { PlaybackHandle, playChordProgression } from '../utils/audioEngine';
+import { parseProgression, saveCustomProgression, deleteCustomProgression } from '../utils/romanNumerals';
+
+interface Props {
+  progressions: ProgressionDef[];   // custom progressions only
+  onSaved: (prog: ProgressionDef) => void;
+  onDeleted: (id: string) => void;
+}
+
+const PREVIEW_ROOT = 48;   // C3
+const PREVIEW_BPM = 90;
+
+// Custom progression list with a Roman-numeral text editor, in the custom-tuning editor's style
+const ProgressionEditor: React.FC<Props> = ({ progressions, onSaved, onDeleted }) => {
+  const [draft, setDraft] = useState<{ id?: string; label: string; text: string } | null>(null);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+
+  useEffect(() => () => playbackRef.current?.stop(), []);
+
+  const preview = (degrees: number[][]) => {
+    playbackRef.current?.stop();
+    playbackRef.current = playChordProgression(degrees, PREVIEW_ROOT, PREVIEW_BPM);
+  };
+
+  const remove = (prog: ProgressionDef) => {
+    if (!confirm(`刪除自訂進行「${prog.label}」？`)) return;
+    deleteCustomProgression(prog.id);
+    onDeleted(prog.id);
+  };
+
+  if (draft) {
+    const parsed = parseProgression(draft.text);
+    const valid = parsed.errors.length === 0;
+    const save = () => {
+      if (!valid) return;
+      onSaved(saveCustomProgression(draft.label, parsed, draft.id));
+      setDraft(null);
+    };
+
+    return (
+      <div className="space-y-2 animate-fade-in">
+        <input
+          value={draft.label}
+          onChange={e => setDraft({ ...draft, label: e.target.value })}
+          placeholder="名稱（留空則使用級數）"
+          className="w-full input-field p-1.5 text-xs"
+          aria-label="進行名稱"
+        />
+        <input
+          value={draft.text}
+          onChange={e => setDraft({ ...draft, text: e.target.value })}
+          onKeyDown={e => { if (e.key === 'Enter') save(); }}
+          placeholder="I - vi7 - ii7 - V7/V - V7 - I"
+          className="w-full input-field p-1.5 text-xs font-mono"
+          aria-label="羅馬數字級數"
+          autoFocus
+        />
+        {draft.text.trim() && !valid && (
+          <ul className="space-y-0.5">
+            {parsed.errors.map((err, i) => (
+              <li key={i} className="text-[10px] text-danger">
+                {err.index >= 0 ? `第 ${err.index + 1} 個和弦「${err.token}」：` : ''}{err.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {valid && (
+          <div className="flex flex-wrap gap-1">
+            {parsed.numerals.map((n, i) => <span key={i} className="chip chip-active text-[10px] font-mono">{n}</span>)}
+          </div>
+        )}
+        <p className="text-[10px] text-tx-muted leading-relaxed">
+          大寫為大三和弦、小寫為小三和弦；可加 ♭ / ♯（以大調音階為準，如小調的 ♭VI）、°、ø、+、7、maj7、9、sus4，
+          轉位記號 6、64、65、43、42，以及副功能 /V。
+        </p>
+        <div className="flex gap-1.5">
+          <button disabled={!valid} onClick={() => preview(parsed.degrees)} className="btn-ghost flex items-center justify-center gap-1 px-3 py-1.5 text-xs disabled:opacity-40">
+            <Play size={11} /> 試聽
+          </button>
+          <button disabled={!valid} onClick={save} className="btn-primary flex-1 py-1.5 text-xs disabled:opacity-40">儲存</button>
+          <button onClick={() => setDraft(null)} className="btn-ghost flex-1 py-1.5 text-xs">取消</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="label">自訂進行</span>
+        <button onClick={() => setDraft({ label: '', text: '' })} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="新增自訂進行">
+          <Plus size={13} className="text-tx-muted" />
+        </button>
+      </div>
+      {progressions.length === 0 && <p className="text-[10px] text-tx-muted">輸入羅馬數字級數建立自己的和弦進行，例如「i - ♭VI - ♭III - ♭VII」。</p>}
+      {progressions.map(p => (
+        <div key={p.id} className="flex items-center gap-1.5 px-2 py-1 rounded-lg" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
+          <span className="flex-1 min-w-0 truncate text-[11px] font-bold text-tx-sub">{p.label}</span>
+          <button onClick={() => preview(p.degrees)} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="試聽"><Play size={11} className="text-tx-muted" /></button>
+          <button onClick={() => setDraft({ id: p.id, label: p.label === p.romanNumerals.join(' - ') ? '' : p.label, text: p.romanNumerals.join(' - ') })}
+            className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="編輯進行"><Pencil size={11} className="text-tx-muted" /></button>
+          <button onClick={() => remove(p)} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="刪除進行"><Trash2 size={11} className="text-tx-muted" /></button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProgressionEditor;
@@ -1,12 +1,23 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Settings, Play, CheckCircle, XCircle, SkipForward, Volume2 } from 'lucide-react';
-import { playChordProgression, NOTE_STRINGS } from '../utils/audioEngine';
-import { PROGRESSIONS, ProgressionDef } from '../types';
+import { playChordProgression, NOTE_STRINGS, PlaybackHandle } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
+import { pickAdaptive, recordAdaptiveResult } from '../utils/adaptiveScheduler';
+import { PROGRESSIONS, ProgressionDef, ProgressionMode, KeyMode, HarmonyQuestion } from '../types';
+import {
+  BASS_DEGREE_LABELS, FUNCTION_LABELS, HARMONY_LENGTHS, KEY_MODES,
+  HarmonyAnswer, HarmonyGrade, chordLabel, emptyHarmonyAnswer, generateHarmony, gradeHarmony, harmonyVocabulary, isAnswerComplete, isSeventh,
+} from '../utils/harmony';
+import { INVERSION_NAMES } from '../utils/chords';
+import { BASS_INVERSIONS, VOICING_STYLES, getVoicingSettings, setVoicingSettings, subscribeVoicing } from '../utils/voicing';
+import { getCustomProgressions } from '../utils/romanNumerals';
+import AdaptiveToggle from './AdaptiveToggle';
+import ProgressionEditor from './ProgressionEditor';
 
 type Phase = 'idle' | 'playing' | 'answering' | 'result';
 
-interface Props { onBack: () => void; volume?: number; }
+interface Props { onBack: () => void; }
 
 function shuffle<T>(arr: T[]): T[] {
   const a = [...arr];
@@ -17,11 +28,13 @@ function shuffle<T>(arr: T[]): T[] {
   return a;
 }
 
-const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
+const ProgressionTraining: React.FC<Props> = ({ onBack }) => {
+  const [customProgs, setCustomProgs] = useState(getCustomProgressions);
   const [selectedIds, setSelectedIds] = useState<string[]>(
     PROGRESSIONS.slice(0, 6).map(p => p.id)
   );
   const [bpm, setBpm] = useState(90);
+  const [adaptive, setAdaptive] = useState(false);
   const [phase, setPhase] = useState<Phase>('idle');
   const [currentProg, setCurrentProg] = useState<ProgressionDef | null>(null);
   const [rootMidi, setRootMidi] = useState(60);
@@ -30,8 +43,32 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
   const [score, setScore] = useState({ correct: 0, total: 0 });
 
+  // Harmonic dictation
+  const [progMode, setProgMode] = useState<ProgressionMode>('choice');
+  const [keyMode, setKeyMode] = useState<KeyMode>('major');
+  const [length, setLength] = useState(4);
+  const [inversions, setInversions] = useState(false);
+  const [secondaryDominants, setSecondaryDominants] = useState(false);
+  const [bassLine, setBassLine] = useState(false);
+  const [harmony, setHarmony] = useState<HarmonyQuestion | null>(null);
+  const [answers, setAnswers] = useState<HarmonyAnswer[]>([]);
+  const [cursor, setCursor] = useState(1);
+  const [grades, setGrades] = useState<HarmonyGrade[] | null>(null);
+  const [playingIdx, setPlayingIdx] = useState<number | null>(null);
+  const [voicing, setVoicing] = useState(getVoicingSettings);
+
+  useEffect(() => subscribeVoicing(() => setVoicing(getVoicingSettings())), []);
+
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); }, []);
+  const answerStartRef = useRef(0);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); playbackRef.current?.stop(); }, []);
+
+  // Stops whatever is still sounding so replays never overlap
+  const play = useCallback((prog: ProgressionDef, root: number) => {
+    playbackRef.current?.stop();
+    playbackRef.current = playChordProgression(prog.degrees, root, bpm);
+  }, [bpm]);
 
   const toggleProg = (id: string) => {
     setSelectedIds(prev =>
@@ -41,14 +78,18 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     );
   };
 
-  const activeProgs = PROGRESSIONS.filter(p => selectedIds.includes(p.id));
+  const allProgs = [...PROGRESSIONS, ...customProgs];
+  const activeProgs = allProgs.filter(p => selectedIds.includes(p.id));
 
   const generateQuestion = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
     setFeedback(null);
     setSelected(null);
 
     const pool = activeProgs.length >= 2 ? activeProgs : PROGRESSIONS.slice(0, 4);
-    const answer = pool[Math.floor(Math.random() * pool.length)];
+    const answer = adaptive
+      ? pool.find(p => p.id === pickAdaptive('progression', pool.map(p => p.id)))!
+      : pool[Math.floor(Math.random() * pool.length)];
 
     // Random root: C3 to B3
     const root = 48 + Math.floor(Math.random() * 12);
@@ -56,26 +97,36 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     setCurrentProg(answer);
 
     // Generate 4 options (answer + 3 distractors)
-    const others = PROGRESSIONS.filter(p => p.id !== answer.id);
+    const others = allProgs.filter(p => p.id !== answer.id);
     const distractors = shuffle(others).slice(0, 3);
     setOptions(shuffle([answer, ...distractors]));
 
     // Play
     setPhase('playing');
-    playChordProgression(answer.degrees, root, bpm);
+    play(answer, root);
 
     const totalDur = (answer.degrees.length * (60 / bpm)) * 1000 + 300;
-    timerRef.current = setTimeout(() => setPhase('answering'), totalDur);
-  }, [activeProgs, bpm]);
+    timerRef.current = setTimeout(() => { setPhase('answering'); answerStartRef.current = Date.now(); }, totalDur);
+  }, [activeProgs, allProgs, bpm, adaptive, play]);
 
   const replay = useCallback(() => {
     if (!currentProg) return;
-    playChordProgression(currentProg.degrees, rootMidi, bpm);
-  }, [currentProg, rootMidi, bpm]);
+    play(currentProg, rootMidi);
+  }, [currentProg, rootMidi, play]);
 
   const handleAnswer = useCallback((prog: ProgressionDef) => {
     if (feedback || !currentProg) return;
     setSelected(prog.id);
+    recordAttempt({
+      trainer: 'progression',
+      question: `${NOTE_STRINGS[((rootMidi % 12) + 12) % 12]}: ${currentProg.label}`,
+      expected: currentProg.label,
+      response: prog.label,
+      correct: prog.id === currentProg.id,
+      responseMs: Date.now() - answerStartRef.current,
+      settings: { selectedIds, bpm, adaptive },
+    });
+    recordAdaptiveResult('progression', currentProg.id, prog.id === currentProg.id);
 
     if (prog.id === currentProg.id) {
       setFeedback('correct');
@@ -85,11 +136,111 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
       setFeedback('incorrect');
       setScore(s => ({ ...s, total: s.total + 1 }));
       // Play correct answer after a delay
-      setTimeout(() => playChordProgression(currentProg.degrees, rootMidi, bpm), 500);
+      timerRef.current = setTimeout(() => play(currentProg, rootMidi), 500);
+    }
+  }, [feedback, currentProg, rootMidi, bpm, selectedIds, adaptive, generateQuestion, play]);
+
+  // ── Harmonic dictation ──
+
+  const playHarmony = useCallback((q: HarmonyQuestion) => {
+    playbackRef.current?.stop();
+    // The generated inversions are part of the answer, so the bass is always played as written
+    const handle = playChordProgression(q.chords.map(c => c.degrees), q.tonic, bpm, { onProgress: step => setPlayingIdx(step) }, { ...getVoicingSettings(), inversions: 'written' });
+    playbackRef.current = handle;
+    handle.ended.then(() => { if (playbackRef.current === handle) setPlayingIdx(null); });
+  }, [bpm]);
+
+  // The opening tonic is given; the user writes in the remaining chords
+  const nextDictation = useCallback(() => {
+    const q = generateHarmony({ mode: keyMode, length, inversions, secondaryDominants });
+    const first = q.chords[0];
+    setHarmony(q);
+    setAnswers(q.chords.map((_, i) => (i === 0 ? { numeral: first.numeral, inversion: first.inversion, bass: first.bass } : emptyHarmonyAnswer())));
+    setCursor(1);
+    setGrades(null);
+    setPhase('answering');
+    answerStartRef.current = Date.now();
+    playHarmony(q);
+  }, [keyMode, length, inversions, secondaryDominants, playHarmony]);
+
+  const updateAnswer = (patch: Partial<HarmonyAnswer>) => {
+    if (grades || cursor === 0) return;
+    const next = answers.map((a, i) => (i === cursor ? { ...a, ...patch } : a));
+    // Switching between triad and seventh invalidates a third-inversion pick
+    if (patch.numeral && !isSeventh(patch.numeral) && next[cursor].inversion === 3) next[cursor].inversion = null;
+    setAnswers(next);
+    if (isAnswerComplete(next[cursor], inversions, bassLine)) {
+      const open = next.findIndex((a, i) => i > cursor && !isAnswerComplete(a, inversions, bassLine));
+      if (open >= 0) setCursor(open);
     }
-  }, [feedback, currentProg, rootMidi, bpm, generateQuestion]);
+  };
+
+  const submitDictation = () => {
+    if (!harmony || !answers.every(a => isAnswerComplete(a, inversions, bassLine))) return;
+    const graded = gradeHarmony(harmony, answers, inversions, bassLine);
+    const parts = graded.slice(1).flatMap(g => (g.bass === null ? [g.numeral] : [g.numeral, g.bass]));
+    const hits = parts.filter(Boolean).length;
+    const allCorrect = hits === parts.length;
+    setGrades(graded);
+    setPhase('result');
+    // Kept apart from 'progression': answers are whole chord sequences, not one progression label
+    recordAttempt({
+      trainer: 'harmony',
+      question: `${NOTE_STRINGS[harmony.tonic % 12]} ${harmony.mode === 'major' ? '大調' : '小調'}：和聲聽寫`,
+      expected: harmony.chords.map(c => chordLabel(c.numeral, c.inversion)).join(' - '),
+      response: answers.map(a => chordLabel(a.numeral!, a.inversion ?? 0)).join(' - '),
+      correct: allCorrect,
+      responseMs: Date.now() - answerStartRef.current,
+      score: Math.round((hits / parts.length) * 100),
+      settings: { keyMode, length, inversions, secondaryDominants, bassLine, bpm },
+    });
+    setScore(sc => ({ correct: sc.correct + (allCorrect ? 1 : 0), total: sc.total + 1 }));
+  };
+
+  const switchMode = (m: ProgressionMode) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    playbackRef.current?.stop();
+    setProgMode(m);
+    setPhase('idle');
+    setFeedback(null);
+    setGrades(null);
+  };
 
   const rootName = NOTE_STRINGS[((rootMidi % 12) + 12) % 12];
+  const vocabulary = harmonyVocabulary(keyMode, secondaryDominants);
+  const current = answers[cursor];
+
+  const voicingCard = (
+    <div className="card p-4 space-y-3">
+      <h3 className="font-bold text-tx text-sm">和弦配置</h3>
+      <div className="space-y-2">
+        <label className="label">排列</label>
+        <div className="flex gap-1.5">
+          {VOICING_STYLES.map(v => (
+            <button key={v.id} onClick={() => setVoicingSettings({ style: v.id })} className={`chip flex-1 justify-center ${voicing.style === v.id ? 'chip-active' : ''}`}>{v.label}</button>
+          ))}
+        </div>
+      </div>
+      {progMode === 'choice' && (
+        <div className="space-y-2">
+          <label className="label">低音轉位</label>
+          <div className="flex gap-1.5">
+            {BASS_INVERSIONS.map(b => (
+              <button key={b.id} onClick={() => setVoicingSettings({ inversions: b.id })} className={`chip flex-1 justify-center ${voicing.inversions === b.id ? 'chip-active' : ''}`}>{b.label}</button>
+            ))}
+          </div>
+        </div>
+      )}
+      <button onClick={() => setVoicingSettings({ separateBass: !voicing.separateBass })} className="w-full flex items-center justify-between cursor-pointer">
+        <div className="text-left">
+          <p className="text-xs font-bold text-tx-sub">獨立低音</p>
+          <p className="text-[10px] text-tx-muted">低音在上方聲部下一個八度單獨演奏</p>
+        </div>
+        <div className={`toggle-track ${voicing.separateBass ? 'active' : ''}`}><div className="toggle-thumb"></div></div>
+      </button>
+      <p className="text-[11px] text-tx-muted leading-relaxed">上方聲部以最小移動連接各和弦；聽音訓練的和弦題與鍵盤的和弦鍵也套用此配置。</p>
+    </div>
+  );
 
   return (
     <div className="flex flex-col max-w-xl mx-auto w-full px-4 py-6 animate-slide-up">
@@ -99,6 +250,22 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
           <Settings size={18} />
         </button>
         <div className="flex items-center gap-3">
+          {/* Mode toggle */}
+          <div className="flex items-center gap-1 p-1 rounded-xl" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
+            {([['choice', '選擇'], ['dictation', '聽寫']] as [ProgressionMode, string][]).map(([m, label]) => (
+              <button
+                key={m}
+                disabled={phase === 'playing'}
+                onClick={() => switchMode(m)}
+                className="px-3 py-1.5 rounded-lg text-[11px] font-bold transition-all cursor-pointer disabled:cursor-default"
+                style={progMode === m
+                  ? { background: 'var(--primary-bg)', border: '1px solid var(--primary)', color: 'var(--primary-sub)' }
+                  : { color: 'var(--tx-muted)' }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           {/* BPM */}
           <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
             <button onClick={() => setBpm(b => Math.max(50, b - 10))} className="text-tx-muted hover:text-tx text-xs font-bold cursor-pointer">−</button>
@@ -117,12 +284,12 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
       </div>
 
       {/* Progression Selector (idle) */}
-      {phase === 'idle' && (
+      {phase === 'idle' && progMode === 'choice' && (
         <div className="space-y-4 mb-6">
           <div className="card p-4 space-y-3">
             <h3 className="font-bold text-tx text-sm">選擇練習的和弦進行</h3>
             <div className="grid grid-cols-2 gap-1.5 max-h-52 overflow-y-auto pr-1 no-scrollbar">
-              {PROGRESSIONS.map(p => {
+              {allProgs.map(p => {
                 const isOn = selectedIds.includes(p.id);
                 return (
                   <button
@@ -138,8 +305,23 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
                 );
               })}
             </div>
+            <ProgressionEditor
+              progressions={customProgs}
+              onSaved={prog => {
+                setCustomProgs(getCustomProgressions());
+                setSelectedIds(prev => (prev.includes(prog.id) ? prev : [...prev, prog.id]));
+              }}
+              onDeleted={id => {
+                setCustomProgs(getCustomProgressions());
+                setSelectedIds(prev => prev.filter(i => i !== id));
+              }}
+            />
           </div>
 
+          {voicingCard}
+
+          <AdaptiveToggle scope="progression" items={activeProgs.map(p => p.id)} enabled={adaptive} onChange={setAdaptive} />
+
           <div className="flex justify-center">
             <button onClick={generateQuestion}
               className="flex items-center gap-2 px-8 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all"
@@ -150,8 +332,157 @@ const ProgressionTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
         </div>
       )}
 
+      {/* Dictation settings (idle) */}
+      {phase === 'idle' && progMode === 'dictation' && (
+        <div className="space-y-4 mb-6">
+          <div className="card p-4 space-y-4">
+            <h3 className="font-bold text-tx text-sm">和聲聽寫</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="label">調性</label>
+                <div className="flex gap-1.5">
+                  {KEY_MODES.map(k => (
+                    <button key={k.id} onClick={() => setKeyMode(k.id)} className={`chip flex-1 justify-center ${keyMode === k.id ? 'chip-active' : ''}`}>{k.label}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="label">和弦數</label>
+                <div className="flex gap-1.5">
+                  {HARMONY_LENGTHS.map(n => (
+                    <button key={n} onClick={() => setLength(n)} className={`chip flex-1 justify-center ${length === n ? 'chip-active' : ''}`}>{n}</button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {([
+              ['轉位和弦', '加入轉位，作答時需標示轉位', inversions, setInversions],
+              ['副屬和弦', '加入 V7/x 離調和弦', secondaryDominants, setSecondaryDominants],
+              ['低音線', '每個和弦另外標示低音級數', bassLine, setBassLine],
+            ] as [string, string, boolean, (v: boolean) => void][]).map(([label, hint, on, set]) => (
+              <button key={label} onClick={() => set(!on)} className="w-full flex items-center justify-between cursor-pointer">
+                <div className="text-left">
+                  <p className="text-xs font-bold text-tx-sub">{label}</p>
+                  <p className="text-[10px] text-tx-muted">{hint}</p>
+                </div>
+                <div className={`toggle-track ${on ? 'active' : ''}`}><div className="toggle-thumb"></div></div>
+              </button>
+            ))}
+            <p className="text-[11px] text-tx-muted leading-relaxed">進行依功能和聲規則產生（主 → 下屬 → 屬 → 主），以正格終止結束。第一個主和弦已填好，逐一寫出其餘和弦的級數。</p>
+          </div>
+
+          {voicingCard}
+
+          <div className="flex justify-center">
+            <button onClick={nextDictation}
+              className="flex items-center gap-2 px-8 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all"
+              style={{ background: 'linear-gradient(135deg,var(--primary),var(--accent))', color: 'white' }}>
+              <Play size={16} /> 開始練習
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Dictation: answering / result */}
+      {phase !== 'idle' && progMode === 'dictation' && harmony && (
+        <div className="space-y-4">
+          <div className="px-4 py-2.5 rounded-xl flex items-center gap-2 text-sm"
+            style={{ background: 'var(--primary-bg)', border: '1px solid rgba(200,149,108,0.18)' }}>
+            {!grades && (
+              <><Volume2 size={13} style={{ color: 'var(--primary)' }} className="shrink-0" />
+                <span style={{ color: 'var(--primary-sub)' }}>{NOTE_STRINGS[harmony.tonic % 12]} {harmony.mode === 'major' ? '大調' : '小調'} · 逐一寫出每個和弦</span></>
+            )}
+            {grades && (grades.every(g => g.numeral && g.bass !== false)
+              ? <><CheckCircle size={13} style={{ color: '#10b981' }} className="shrink-0" /><span style={{ color: '#10b981' }}>全部正確！</span></>
+              : <><XCircle size={13} style={{ color: '#ef4444' }} className="shrink-0" /><span style={{ color: '#ef4444' }}>紅色為錯誤，下方為正確答案</span></>)}
+          </div>
+
+          {/* Chord slots */}
+          <div className="grid gap-1.5" style={{ gridTemplateColumns: `repeat(${Math.min(harmony.chords.length, 4)}, minmax(0, 1fr))` }}>
+            {harmony.chords.map((c, i) => {
+              const a = answers[i];
+              const g = grades?.[i];
+              const wrong = g && (!g.numeral || g.bass === false);
+              return (
+                <button
+                  key={i}
+                  disabled={!!grades || i === 0}
+                  onClick={() => setCursor(i)}
+                  className="rounded-xl py-2.5 px-1 text-center transition-all cursor-pointer disabled:cursor-default"
+                  style={{
+                    background: i === playingIdx ? 'var(--primary-bg)' : 'var(--input-bg)',
+                    border: `1px solid ${g ? (wrong ? 'rgba(239,68,68,0.4)' : 'rgba(16,185,129,0.4)') : i === cursor ? 'var(--primary)' : 'var(--bd)'}`,
+                  }}
+                >
+                  <div className="text-sm font-black" style={{ color: g ? (g.numeral ? '#10b981' : '#ef4444') : a?.numeral ? 'var(--tx)' : 'var(--tx-muted)' }}>
+                    {a?.numeral ? chordLabel(a.numeral, a.inversion ?? 0) : '?'}
+                  </div>
+                  {bassLine && (
+                    <div className="text-[10px] font-mono" style={{ color: g ? (g.bass ? '#10b981' : '#ef4444') : 'var(--tx-muted)' }}>
+                      低音 {a?.bass !== null && a?.bass !== undefined ? BASS_DEGREE_LABELS[a.bass] : '–'}
+                    </div>
+                  )}
+                  {g && (
+                    <div className="text-[10px] mt-1 text-tx-muted">
+                      {wrong && <span className="font-bold" style={{ color: '#10b981' }}>{chordLabel(c.numeral, c.inversion)}{bassLine ? ` · ${BASS_DEGREE_LABELS[c.bass]}` : ''} </span>}
+                      {FUNCTION_LABELS[c.fn]}
+                    </div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-center">
+            <button onClick={() => playHarmony(harmony)}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-80 active:scale-95 transition-all btn-ghost">
+              <Play size={14} /> 重播
+            </button>
+          </div>
+
+          {!grades && current && (
+            <div className="card p-4 space-y-3">
+              <div className="space-y-2">
+                <label className="label">級數</label>
+                <div className="grid grid-cols-4 gap-1.5">
+                  {vocabulary.map(n => (
+                    <button key={n} onClick={() => updateAnswer({ numeral: n })} className={`chip justify-center text-xs ${current.numeral === n ? 'chip-active' : ''}`}>{n}</button>
+                  ))}
+                </div>
+              </div>
+              {inversions && (
+                <div className="space-y-2">
+                  <label className="label">轉位</label>
+                  <div className="flex gap-1.5">
+                    {INVERSION_NAMES.slice(0, current.numeral && isSeventh(current.numeral) ? 4 : 3).map((label, inv) => (
+                      <button key={inv} onClick={() => updateAnswer({ inversion: inv })} className={`chip flex-1 justify-center text-[10px] ${current.inversion === inv ? 'chip-active' : ''}`}>{label}</button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {bassLine && (
+                <div className="space-y-2">
+                  <label className="label">低音</label>
+                  <div className="grid grid-cols-6 gap-1.5">
+                    {BASS_DEGREE_LABELS.map((label, pc) => (
+                      <button key={pc} onClick={() => updateAnswer({ bass: pc })} className={`chip justify-center text-xs font-mono ${current.bass === pc ? 'chip-active' : ''}`}>{label}</button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!grades ? (
+            <button disabled={!answers.every(a => isAnswerComplete(a, inversions, bassLine))} onClick={submitDictation} className="w-full btn-primary py-3.5 text-sm font-bold disabled:opacity-40">提交答案</button>
+          ) : (
+            <button onClick={nextDictation} className="w-full btn-primary py-3.5 text-sm font-bold flex items-center justify-center gap-2"><SkipForward size={16} /> 下一題</button>
+          )}
+        </div>
+      )}
+
       {/* Playing / Answering / Result */}
-      {phase !== 'idle' && (
+      {phase !== 'idle' && progMode === 'choice' && (
         <>
           {/* Status */}
           <div className="mb-5 px-4 py-2.5 rounded-xl flex items-center gap-2 text-sm"
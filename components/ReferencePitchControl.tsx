@@ -0,0 +1,32 @@
+
+import React, { useState, useEffect } from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { A4_PRESETS, A4_MIN, A4_MAX, getReferencePitch, setReferencePitch, subscribeReferencePitch } from '../utils/audioEngine';
+
+const ReferencePitchControl: React.FC = () => {
+  const [a4, setA4] = useState(getReferencePitch());
+
+  useEffect(() => subscribeReferencePitch(() => setA4(getReferencePitch())), []);
+
+  const stepBtn = 'w-6 h-6 rounded-md flex items-center justify-center cursor-pointer transition-colors hover:bg-bg-hover disabled:opacity-40';
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="label">A4</span>
+      <button onClick={() => setReferencePitch(a4 - 1)} disabled={a4 <= A4_MIN} className={stepBtn} aria-label="降低基準音">
+        <Minus size={12} className="text-tx-muted" />
+      </button>
+      <span className="text-xs font-mono font-bold text-tx w-14 text-center">{a4} Hz</span>
+      <button onClick={() => setReferencePitch(a4 + 1)} disabled={a4 >= A4_MAX} className={stepBtn} aria-label="提高基準音">
+        <Plus size={12} className="text-tx-muted" />
+      </button>
+      <div className="flex gap-1">
+        {A4_PRESETS.map(hz => (
+          <button key={hz} onClick={() => setReferencePitch(hz)} className={`chip ${a4 === hz ? 'chip-active' : ''}`}>{hz}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReferencePitchControl;
@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Settings, Play, RotateCcw, Disc, CheckCircle, SkipForward, Volume2, Trash2, PenLine } from 'lucide-react';
-import { getAudioContext } from '../utils/audioEngine';
+import { getAudioContext, getChannel } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
 import { RhythmDifficulty, RhythmPattern, RhythmCell, RhythmMode } from '../types';
 
 // ── Rhythm Cell Library ─────────────────────────────────────────────────────
@@ -64,11 +65,11 @@ const DIFF_CELLS: Record<RhythmDifficulty, string[]> = {
 
 type Phase = 'idle' | 'countIn' | 'playing' | 'recording' | 'dictation' | 'result';
 
-interface Props { onBack: () => void; volume?: number; }
+interface Props { onBack: () => void; }
 
 // ── Component ───────────────────────────────────────────────────────────────
 
-const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
+const RhythmTraining: React.FC<Props> = ({ onBack }) => {
   const [rhythmMode, setRhythmMode] = useState<RhythmMode>('tap');
   const [difficulty, setDifficulty] = useState<RhythmDifficulty>('easy');
   const [bpm, setBpm] = useState(90);
@@ -95,6 +96,7 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const timerListRef = useRef<ReturnType<typeof setTimeout>[]>([]);
   const beatTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const phaseRef = useRef<Phase>('idle');
+  const answerStartRef = useRef(0);
 
   useEffect(() => { phaseRef.current = phase; }, [phase]);
   const cleanup = useCallback(() => {
@@ -118,16 +120,16 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
       osc.type = freq > 1000 ? 'triangle' : 'sine';
       osc.frequency.value = freq;
       osc.connect(g);
-      g.connect(ctx.destination);
+      g.connect(getChannel('trainers'));
       g.gain.setValueAtTime(0.0001, now);
-      g.gain.linearRampToValueAtTime(Math.min(0.5, gain * volume), now + 0.005);
+      g.gain.linearRampToValueAtTime(Math.min(0.5, gain * 0.5), now + 0.005);
       g.gain.exponentialRampToValueAtTime(0.0001, now + 0.07);
       osc.start(now);
       osc.stop(now + 0.08);
     } catch (e) {
       console.error('playClick error:', e);
     }
-  }, [volume]);
+  }, []);
 
   // Play pattern audio (shared between tap & dictation)
   const playPatternAudio = useCallback((pat: RhythmPattern) => {
@@ -233,6 +235,7 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
           const countInDurationMs = countInBeats * beatDur * 1000;
           patternStartRef.current = performance.now() + countInDurationMs;
           userTapsRef.current = [];
+          answerStartRef.current = Date.now();
 
           for (let i = 0; i < countInBeats; i++) {
             const timer = setTimeout(() => {
@@ -259,6 +262,7 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
         timerRef.current = setTimeout(() => {
           setPhase('dictation');
           setCurrentBeat(-1);
+          answerStartRef.current = Date.now();
         }, patternDur);
       }
 
@@ -360,6 +364,17 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     const userNorm = tapTimes.map(t => Math.max(0, Math.min(1, t / barDur)));
     setUserBeatsNorm(userNorm);
 
+    recordAttempt({
+      trainer: 'rhythm',
+      question: pat.label,
+      expected: pat.label,
+      response: `${hitCount}/${targetTimes.length} 命中 · ${taps.length} 次拍打`,
+      correct: s >= 80,
+      responseMs: Date.now() - answerStartRef.current,
+      score: s,
+      settings: { mode: 'tap', difficulty, bpm },
+    });
+
     setTapResults(results);
     setScore(s);
     setTotal(t => t + 1);
@@ -489,12 +504,23 @@ const RhythmTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
       }
     }
 
+    recordAttempt({
+      trainer: 'rhythm',
+      question: pattern.label,
+      expected: (pattern.cells ?? []).map(id => CELL_MAP[id]?.label ?? id).join(''),
+      response: userCells.map(id => CELL_MAP[id]?.label ?? id).join(''),
+      correct: s >= 80,
+      responseMs: Date.now() - answerStartRef.current,
+      score: s,
+      settings: { mode: 'dictation', difficulty, bpm },
+    });
+
     setDictationResult(cellResults);
     setScore(s);
     setTotal(t => t + 1);
     if (s >= 80) setCorrect(c => c + 1);
     setPhase('result');
-  }, [pattern, userCells, cellsToBeats]);
+  }, [pattern, userCells, cellsToBeats, difficulty, bpm]);
 
   // Keyboard tap support
   useEffect(() => {
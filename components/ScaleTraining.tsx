@@ -1,13 +1,16 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Settings, Play, CheckCircle, XCircle, SkipForward, Volume2 } from 'lucide-react';
-import { playScale, NOTE_STRINGS } from '../utils/audioEngine';
+import { playScale, NOTE_STRINGS, PlaybackHandle } from '../utils/audioEngine';
+import { recordAttempt } from '../utils/practiceHistory';
+import { pickAdaptive, recordAdaptiveResult } from '../utils/adaptiveScheduler';
 import { ScaleType, SCALE_INTERVALS } from '../types';
+import AdaptiveToggle from './AdaptiveToggle';
 
 type Phase = 'idle' | 'playing' | 'answering' | 'result';
 type Direction = 'up' | 'down' | 'updown';
 
-interface Props { onBack: () => void; volume?: number; }
+interface Props { onBack: () => void; }
 
 function shuffle<T>(arr: T[]): T[] {
   const a = [...arr];
@@ -20,12 +23,13 @@ function shuffle<T>(arr: T[]): T[] {
 
 const ALL_SCALES = Object.values(ScaleType);
 
-const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
+const ScaleTraining: React.FC<Props> = ({ onBack }) => {
   const [selectedScales, setSelectedScales] = useState<ScaleType[]>([
     ScaleType.MAJOR, ScaleType.NATURAL_MINOR, ScaleType.DORIAN, ScaleType.MIXOLYDIAN,
   ]);
   const [direction, setDirection] = useState<Direction>('up');
   const [speed, setSpeed] = useState(1.0);
+  const [adaptive, setAdaptive] = useState(false);
   const [phase, setPhase] = useState<Phase>('idle');
   const [currentScale, setCurrentScale] = useState<ScaleType | null>(null);
   const [rootMidi, setRootMidi] = useState(60);
@@ -35,7 +39,15 @@ const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   const [score, setScore] = useState({ correct: 0, total: 0 });
 
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); }, []);
+  const answerStartRef = useRef(0);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  useEffect(() => () => { if (timerRef.current) clearTimeout(timerRef.current); playbackRef.current?.stop(); }, []);
+
+  // Stops whatever is still sounding so replays never overlap
+  const play = useCallback((root: number, scale: ScaleType) => {
+    playbackRef.current?.stop();
+    playbackRef.current = playScale(root, SCALE_INTERVALS[scale], speed, direction);
+  }, [speed, direction]);
 
   const toggleScale = (s: ScaleType) => {
     setSelectedScales(prev =>
@@ -46,11 +58,12 @@ const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
   };
 
   const generateQuestion = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
     setFeedback(null);
     setSelected(null);
 
     const pool = selectedScales.length >= 2 ? selectedScales : ALL_SCALES.slice(0, 4);
-    const answer = pool[Math.floor(Math.random() * pool.length)];
+    const answer = adaptive ? pickAdaptive('scale', pool) : pool[Math.floor(Math.random() * pool.length)];
     const root = 60 + Math.floor(Math.random() * 12);
 
     setRootMidi(root);
@@ -64,22 +77,32 @@ const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
 
     setPhase('playing');
     const intervals = SCALE_INTERVALS[answer];
-    playScale(root, intervals, speed, direction);
+    play(root, answer);
 
     let noteCount = intervals.length;
     if (direction === 'updown') noteCount = noteCount * 2 - 1;
     const totalDur = noteCount * 0.25 * speed * 1000 + 400;
-    timerRef.current = setTimeout(() => setPhase('answering'), totalDur);
-  }, [selectedScales, speed, direction]);
+    timerRef.current = setTimeout(() => { setPhase('answering'); answerStartRef.current = Date.now(); }, totalDur);
+  }, [selectedScales, speed, direction, adaptive, play]);
 
   const replay = useCallback(() => {
     if (!currentScale) return;
-    playScale(rootMidi, SCALE_INTERVALS[currentScale], speed, direction);
-  }, [currentScale, rootMidi, speed, direction]);
+    play(rootMidi, currentScale);
+  }, [currentScale, rootMidi, play]);
 
   const handleAnswer = useCallback((scale: ScaleType) => {
     if (feedback || !currentScale) return;
     setSelected(scale);
+    recordAttempt({
+      trainer: 'scale',
+      question: `${NOTE_STRINGS[((rootMidi % 12) + 12) % 12]} ${currentScale}`,
+      expected: currentScale,
+      response: scale,
+      correct: scale === currentScale,
+      responseMs: Date.now() - answerStartRef.current,
+      settings: { selectedScales, direction, speed, adaptive },
+    });
+    recordAdaptiveResult('scale', currentScale, scale === currentScale);
 
     if (scale === currentScale) {
       setFeedback('correct');
@@ -88,9 +111,9 @@ const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
     } else {
       setFeedback('incorrect');
       setScore(s => ({ ...s, total: s.total + 1 }));
-      setTimeout(() => playScale(rootMidi, SCALE_INTERVALS[currentScale], speed, direction), 500);
+      timerRef.current = setTimeout(() => play(rootMidi, currentScale), 500);
     }
-  }, [feedback, currentScale, rootMidi, speed, direction, generateQuestion]);
+  }, [feedback, currentScale, rootMidi, speed, direction, selectedScales, adaptive, generateQuestion, play]);
 
   const rootName = NOTE_STRINGS[((rootMidi % 12) + 12) % 12];
 
@@ -153,6 +176,8 @@ const ScaleTraining: React.FC<Props> = ({ onBack, volume = 0.5 }) => {
             </div>
           </div>
 
+          <AdaptiveToggle scope="scale" items={selectedScales} enabled={adaptive} onChange={setAdaptive} />
+
           <div className="flex justify-center">
             <button onClick={generateQuestion}
               className="flex items-center gap-2 px-8 py-3 rounded-xl font-semibold text-sm cursor-pointer hover:opacity-90 active:scale-95 transition-all"
@@ -0,0 +1,376 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Settings, Play, Mic, RotateCcw, CheckCircle, Target, Square } from 'lucide-react';
+import { IntervalQuality, SingingDirection, SingingQuestion, SingingResult, SingingTask } from '../types';
+import { getAudioContext, playNotes, playScale, getNoteFromFrequency, midiToFrequency, PlaybackHandle } from '../utils/audioEngine';
+import { MicInput, openMicInput } from '../utils/micInput';
+import { PitchTracker, TrackerFrame, startPitchTracker } from '../utils/pitchTracker';
+import { PitchSample } from '../utils/intonationAnalysis';
+import { PASS_SCORE, VOICE_RANGES, buildSingingQuestion, countSungNotes, gradeSinging } from '../utils/singing';
+import { midiLabel } from '../utils/tunings';
+import { recordAttempt } from '../utils/practiceHistory';
+
+interface Props {
+  onBack: () => void;
+}
+
+type Phase = 'idle' | 'playing' | 'listening' | 'result';
+
+const NOTE_GAP = 0.6;             // seconds between melody notes
+const LISTEN_DELAY_MS = 400;      // let the prompt's release tail die away before recording
+const END_SILENCE = 1.0;          // seconds of silence after the last expected note ends the take
+const WATCH_INTERVAL_MS = 200;
+const INTERVAL_CHOICES = Object.values(IntervalQuality);
+
+const scoreColor = (s: number) => s >= 80 ? '#10b981' : s >= 50 ? '#f59e0b' : '#ef4444';
+
+const SingingTraining: React.FC<Props> = ({ onBack }) => {
+  const [task, setTask] = useState<SingingTask>('interval');
+  const [direction, setDirection] = useState<SingingDirection>('up');
+  const [intervals, setIntervals] = useState<IntervalQuality[]>([IntervalQuality.m3, IntervalQuality.M3, IntervalQuality.P4, IntervalQuality.P5]);
+  const [melodyLength, setMelodyLength] = useState(4);
+  const [rangeId, setRangeId] = useState('mid');
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [question, setQuestion] = useState<SingingQuestion | null>(null);
+  const [result, setResult] = useState<SingingResult | null>(null);
+  const [live, setLive] = useState<{ frequency: number; rms: number } | null>(null);
+  const [sungCount, setSungCount] = useState(0);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  const micRef = useRef<MicInput | null>(null);
+  const trackerRef = useRef<PitchTracker | null>(null);
+  const playbackRef = useRef<PlaybackHandle | null>(null);
+  const watchRef = useRef<number | null>(null);
+  const delayRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const tokenRef = useRef(0);        // bumps on every prompt so stale playback callbacks are ignored
+  const sessionRef = useRef(0);      // bumps when the mic is released
+  const recordingRef = useRef(false);
+  const samplesRef = useRef<PitchSample[]>([]);
+  const listenStartRef = useRef(0);
+  const lastVoicedRef = useRef(0);
+  const answerStartRef = useRef(0);
+
+  const range = VOICE_RANGES.find(r => r.id === rangeId) ?? VOICE_RANGES[1];
+
+  const clearTimers = () => {
+    if (watchRef.current) { window.clearInterval(watchRef.current); watchRef.current = null; }
+    if (delayRef.current) { clearTimeout(delayRef.current); delayRef.current = null; }
+  };
+
+  const stopAll = () => {
+    tokenRef.current++;
+    sessionRef.current++;
+    clearTimers();
+    recordingRef.current = false;
+    playbackRef.current?.stop();
+    trackerRef.current?.stop(); trackerRef.current = null;
+    micRef.current?.close(); micRef.current = null;
+    setLive(null);
+  };
+
+  useEffect(() => () => stopAll(), []);
+
+  // Only refs and setters in here: the tracker keeps the callback it was started with
+  const handleFrame = ({ frequency, rms, time }: TrackerFrame) => {
+    if (!recordingRef.current) return;
+    const t = time - listenStartRef.current;
+    samplesRef.current.push({ time: t, frequency, rms });
+    if (frequency > 0) lastVoicedRef.current = t;
+    setLive(frequency > 0 ? { frequency, rms } : null);
+  };
+
+  // The mic stays open for the whole session; samples are only kept while listening
+  const ensureMic = async () => {
+    if (trackerRef.current) return;
+    const session = sessionRef.current;
+    const ctx = getAudioContext();
+    const mic = await openMicInput(ctx);
+    const tracker = await startPitchTracker(ctx, mic.source, handleFrame);
+    // Left the trainer meanwhile, or a concurrent call got there first
+    if (session !== sessionRef.current || trackerRef.current) { tracker.stop(); mic.close(); return; }
+    micRef.current = mic;
+    trackerRef.current = tracker;
+  };
+
+  const finish = (q: SingingQuestion) => {
+    clearTimers();
+    recordingRef.current = false;
+    setLive(null);
+    const r = gradeSinging(q, samplesRef.current, NOTE_GAP);
+    setResult(r);
+    setPhase('result');
+    const passed = r.score >= PASS_SCORE;
+    recordAttempt({
+      trainer: 'singing',
+      question: q.label,
+      expected: q.targets.map(midiLabel).join(' '),
+      response: r.notes.map(n => n.sung === null ? '—' : midiLabel(Math.round(n.sung))).join(' '),
+      correct: passed,
+      responseMs: Date.now() - answerStartRef.current,
+      score: r.score,
+      settings: { task, direction, intervals, melodyLength, range: range.id },
+    });
+    setScore(s => ({ correct: s.correct + (passed ? 1 : 0), total: s.total + 1 }));
+  };
+
+  const startListening = (q: SingingQuestion, token: number) => {
+    if (token !== tokenRef.current) return;
+    const ctx = getAudioContext();
+    samplesRef.current = [];
+    listenStartRef.current = ctx.currentTime;
+    lastVoicedRef.current = 0;
+    recordingRef.current = true;
+    answerStartRef.current = Date.now();
+    setSungCount(0);
+    setPhase('listening');
+    const maxListen = q.onsets[q.onsets.length - 1] + NOTE_GAP * q.targets.length + 5;
+    watchRef.current = window.setInterval(() => {
+      const elapsed = ctx.currentTime - listenStartRef.current;
+      const count = countSungNotes(samplesRef.current);
+      setSungCount(count);
+      if ((count >= q.targets.length && elapsed - lastVoicedRef.current > END_SILENCE) || elapsed > maxListen) finish(q);
+    }, WATCH_INTERVAL_MS);
+  };
+
+  const ask = async (q: SingingQuestion) => {
+    clearTimers();
+    recordingRef.current = false;
+    const token = ++tokenRef.current;
+    setQuestion(q);
+    setResult(null);
+    setError(null);
+    try {
+      await ensureMic();
+    } catch (err) {
+      console.error(err);
+      setError('無法啟用麥克風，請檢查權限。');
+      setPhase('idle');
+      return;
+    }
+    if (token !== tokenRef.current) return;
+    setPhase('playing');
+    playbackRef.current?.stop();
+    playbackRef.current = q.task === 'interval'
+      ? playNotes(q.prompt, 1.5)
+      : playScale(q.prompt[0], q.prompt.map(m => m - q.prompt[0]), NOTE_GAP / 0.25);
+    const handle = playbackRef.current;
+    handle.ended.then(() => {
+      if (token !== tokenRef.current || playbackRef.current !== handle) return;
+      delayRef.current = setTimeout(() => startListening(q, token), LISTEN_DELAY_MS);
+    });
+  };
+
+  const next = () => ask(buildSingingQuestion({ task, direction, intervals, melodyLength, range, noteGap: NOTE_GAP }));
+
+  const toggleInterval = (q: IntervalQuality) => {
+    setIntervals(prev => prev.includes(q) ? (prev.length > 1 ? prev.filter(i => i !== q) : prev) : [...prev, q]);
+  };
+
+  // Live readout against the note currently expected
+  const currentTarget = question ? question.targets[Math.min(sungCount, question.targets.length - 1)] : null;
+  const liveNote = live ? getNoteFromFrequency(live.frequency) : null;
+  const liveCents = live && currentTarget !== null ? 1200 * Math.log2(live.frequency / midiToFrequency(currentTarget)) : null;
+  // Echo is graded in whatever octave the singer chose, intervals at the written pitch; the meter matches
+  const meterCents = liveCents !== null && question?.task === 'echo' ? liveCents - 1200 * Math.round(liveCents / 1200) : liveCents;
+
+  const segBtn = (active: boolean): React.CSSProperties => active
+    ? { background: 'var(--primary-bg)', border: '1px solid var(--primary)', color: 'var(--primary-sub)' }
+    : { color: 'var(--tx-muted)' };
+
+  return (
+    <div className="flex flex-col h-full max-w-xl lg:max-w-3xl mx-auto p-4 sm:p-6 overflow-y-auto animate-slide-up">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <button onClick={() => { stopAll(); onBack(); }} className="btn-ghost p-2 cursor-pointer" aria-label="返回設定">
+          <Settings size={18} />
+        </button>
+        <div className="text-center">
+          <p className="text-[10px] text-tx-muted uppercase tracking-widest mb-0.5">歌唱練習</p>
+        </div>
+        <div className="flex flex-col items-end">
+          <span className="label">分數</span>
+          <div className="text-xl font-black leading-none">
+            <span className="gradient-text">{score.correct}</span>
+            <span className="text-tx-muted mx-1">/</span>
+            <span className="text-tx-sub">{score.total}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Settings (idle) */}
+      {phase === 'idle' && (
+        <div className="space-y-4 animate-fade-in">
+          <div className="card p-4 space-y-4">
+            <div className="flex items-center gap-1 p-1 rounded-xl" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
+              {(['interval', 'echo'] as SingingTask[]).map(t => (
+                <button key={t} onClick={() => setTask(t)} className="flex-1 px-2.5 py-1.5 rounded-lg text-[11px] font-bold transition-all cursor-pointer" style={segBtn(task === t)}>
+                  {t === 'interval' ? '唱音程' : '旋律模唱'}
+                </button>
+              ))}
+            </div>
+
+            {task === 'interval' ? (
+              <>
+                <div className="space-y-2">
+                  <label className="label">方向</label>
+                  <div className="flex gap-1.5">
+                    {(['up', 'down', 'both'] as SingingDirection[]).map(d => (
+                      <button key={d} onClick={() => setDirection(d)} className={`chip flex-1 justify-center ${direction === d ? 'chip-active' : ''}`}>
+                        {{ up: '向上 ↑', down: '向下 ↓', both: '隨機' }[d]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="label">音程</label>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {INTERVAL_CHOICES.map(q => (
+                      <button key={q} onClick={() => toggleInterval(q)} className={`chip justify-center text-[10px] ${intervals.includes(q) ? 'chip-active' : ''}`}>{q}</button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <label className="label">旋律長度</label>
+                <div className="flex gap-1.5">
+                  {[3, 4, 5, 6].map(n => (
+                    <button key={n} onClick={() => setMelodyLength(n)} className={`chip flex-1 justify-center ${melodyLength === n ? 'chip-active' : ''}`}>{n} 音</button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="label">音域</label>
+              <div className="flex gap-1.5">
+                {VOICE_RANGES.map(r => (
+                  <button key={r.id} onClick={() => setRangeId(r.id)} className={`chip flex-1 justify-center ${rangeId === r.id ? 'chip-active' : ''}`}>
+                    {r.label}<span className="text-[9px] opacity-70 ml-1">{midiLabel(r.low)}–{midiLabel(r.high)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-[11px] text-tx-muted leading-relaxed">
+              {task === 'interval'
+                ? '聽到參考音後，從參考音唱出指定方向的音程並保持約一秒，以實際音高評分。'
+                : '聽完旋律後照原速唱回，會依每個音的音準與時間點評分，可用任何八度演唱。'}
+              建議配戴耳機。
+            </p>
+          </div>
+
+          {error && <p className="text-sm text-danger text-center">{error}</p>}
+
+          <div className="flex justify-center">
+            <button onClick={next} className="btn-primary px-12 py-4 text-base tracking-wide active:scale-95 flex items-center gap-2" style={{ boxShadow: '0 4px 20px rgba(200,149,108,0.2)' }}>
+              <Play size={16} /> 開始練習
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase !== 'idle' && question && (
+        <div className="flex-1 flex flex-col items-center gap-6">
+          <div className="text-center space-y-1">
+            <p className="text-2xl font-black" style={{ color: 'var(--primary-sub)' }}>{question.label}</p>
+            <p className="text-xs text-tx-muted">
+              {phase === 'playing' && '正在播放，請仔細聆聽...'}
+              {phase === 'listening' && (question.task === 'interval' ? '請唱出目標音' : '請唱回這段旋律')}
+              {phase === 'result' && '評分結果'}
+            </p>
+          </div>
+
+          {/* Progress through the expected notes */}
+          <div className="flex gap-2">
+            {question.targets.map((_, i) => {
+              const graded = result?.notes[i];
+              const bg = graded ? scoreColor(graded.score) : i < sungCount ? 'var(--primary)' : 'var(--bd)';
+              return <div key={i} className="w-3 h-3 rounded-full transition-colors" style={{ background: bg }} />;
+            })}
+          </div>
+
+          {phase === 'playing' && (
+            <div className="w-20 h-20 rounded-full btn-primary flex items-center justify-center animate-glow-pulse">
+              <Play size={32} className="text-white" />
+            </div>
+          )}
+
+          {phase === 'listening' && (
+            <div className="w-full max-w-xs space-y-4 animate-fade-in">
+              <div className="flex flex-col items-center gap-1">
+                <Mic size={28} className="text-success" style={{ opacity: live ? 1 : 0.4 }} />
+                <span className="text-3xl font-black text-tx">{liveNote ? `${liveNote.note}${liveNote.octave}` : '—'}</span>
+              </div>
+              <div className="relative h-7 rounded-full" style={{ background: 'var(--input-bg)', border: '1px solid var(--bd)' }}>
+                <div className="absolute left-1/2 -translate-x-1/2 w-0.5 h-full" style={{ background: 'var(--bd)' }} />
+                {meterCents !== null && (
+                  <div
+                    className="absolute w-1.5 h-full rounded-full transition-all duration-75"
+                    style={{
+                      left: `calc(50% + ${Math.max(-50, Math.min(50, meterCents / 2))}%)`,
+                      transform: 'translateX(-50%)',
+                      background: Math.abs(meterCents) < 30 ? '#10b981' : '#ef4444',
+                    }}
+                  />
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => ask(question)} className="flex-1 btn-ghost flex items-center justify-center gap-2 py-2.5 text-xs font-bold">
+                  <RotateCcw size={14} /> 重聽題目
+                </button>
+                <button onClick={() => finish(question)} className="flex-1 btn-ghost flex items-center justify-center gap-2 py-2.5 text-xs font-bold">
+                  <Square size={12} /> 完成
+                </button>
+              </div>
+            </div>
+          )}
+
+          {phase === 'result' && result && (
+            <div className="w-full max-w-md space-y-4 animate-bounce-in">
+              <div className="card p-5 space-y-4">
+                <div className="flex items-center justify-center gap-3">
+                  {result.score >= PASS_SCORE
+                    ? <CheckCircle size={32} style={{ color: scoreColor(result.score) }} />
+                    : <Target size={32} style={{ color: scoreColor(result.score) }} />}
+                  <span className="text-5xl font-black" style={{ color: scoreColor(result.score) }}>{result.score}</span>
+                </div>
+                {result.octaveShift !== 0 && (
+                  <p className="text-[11px] text-tx-muted text-center">
+                    你以{result.octaveShift < 0 ? '低' : '高'} {Math.abs(result.octaveShift)} 個八度演唱，已依八度換算評分
+                  </p>
+                )}
+                <div className="space-y-1.5 pt-2 border-t border-bd">
+                  {result.notes.map((n, i) => (
+                    <div key={i} className="flex items-center justify-between text-xs py-1">
+                      <span className="font-bold text-tx w-10">{midiLabel(n.target)}</span>
+                      {n.sung === null ? (
+                        <span className="text-tx-muted flex-1 text-center">未偵測到</span>
+                      ) : (
+                        <span className="flex-1 text-center font-mono text-tx-sub">
+                          {n.cents! > 0 ? '+' : ''}{Math.round(n.cents!)}¢
+                          {n.timingError !== null && <span className="text-tx-muted ml-2">{n.timingError > 0 ? '+' : ''}{Math.round(n.timingError * 1000)} ms</span>}
+                        </span>
+                      )}
+                      <span className="font-bold w-8 text-right" style={{ color: scoreColor(n.score) }}>{n.score}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => ask(question)} className="flex-1 btn-ghost flex items-center justify-center gap-2 py-4 text-sm font-bold">
+                  <RotateCcw size={14} /> 再唱一次
+                </button>
+                <button onClick={next} className="flex-1 btn-primary py-4 text-base font-bold tracking-wide active:scale-95" style={{ boxShadow: '0 4px 20px rgba(200,149,108,0.2)' }}>
+                  下一題
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SingingTraining;
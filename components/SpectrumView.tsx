@@ -0,0 +1,171 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { HarmonicAnalysis, INHARMONIC_CENTS, analyzeHarmonics } from '../utils/harmonics';
+
+interface Props {
+  analyserRef: React.MutableRefObject<AnalyserNode | null>;
+  // Latest detected fundamental (Hz), null while silent
+  fundamentalRef: React.MutableRefObject<number | null>;
+}
+
+const HARMONIC_COUNT = 12;
+const MIN_FREQ = 30;
+const MIN_DB = -110;
+const MAX_DB = -10;
+const READOUT_INTERVAL_MS = 200;
+
+const centsColor = (cents: number) => {
+  const abs = Math.abs(cents);
+  if (abs < 5) return '#10b981';
+  if (abs < INHARMONIC_CENTS) return '#f59e0b';
+  return '#ef4444';
+};
+
+// Live spectrum on a log-frequency axis with the harmonic series of the detected note marked on it
+const SpectrumView: React.FC<Props> = ({ analyserRef, fundamentalRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [analysis, setAnalysis] = useState<HarmonicAnalysis | null>(null);
+
+  useEffect(() => {
+    let rafId: number;
+    let spectrum = new Float32Array(0);
+    let lastReadout = 0;
+    let latest: HarmonicAnalysis | null = null;
+
+    const draw = (now: number) => {
+      rafId = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const analyser = analyserRef.current;
+      if (!canvas || !ctx || !analyser) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+      if (canvas.width !== rect.width * dpr || canvas.height !== rect.height * dpr) {
+        canvas.width = rect.width * dpr;
+        canvas.height = rect.height * dpr;
+        ctx.scale(dpr, dpr);
+      }
+      const W = rect.width;
+      const H = rect.height;
+
+      if (spectrum.length !== analyser.frequencyBinCount) spectrum = new Float32Array(analyser.frequencyBinCount);
+      analyser.getFloatFrequencyData(spectrum);
+      const sampleRate = analyser.context.sampleRate;
+      const binHz = sampleRate / analyser.fftSize;
+
+      const f0 = fundamentalRef.current;
+      latest = f0 ? analyzeHarmonics(spectrum, sampleRate, f0, HARMONIC_COUNT) : null;
+      if (now - lastReadout > READOUT_INTERVAL_MS) {
+        lastReadout = now;
+        setAnalysis(latest);
+      }
+
+      // Frequency range: up to a bit past the last marked harmonic, or 5kHz when nothing is detected
+      const maxFreq = Math.min(sampleRate / 2, latest ? latest.fundamental * (HARMONIC_COUNT + 1) : 5000);
+      const logMin = Math.log(MIN_FREQ);
+      const logMax = Math.log(Math.max(maxFreq, MIN_FREQ * 4));
+      const freqToX = (f: number) => ((Math.log(f) - logMin) / (logMax - logMin)) * W;
+      const dbToY = (db: number) => H - ((Math.max(MIN_DB, Math.min(MAX_DB, db)) - MIN_DB) / (MAX_DB - MIN_DB)) * H;
+
+      const style = getComputedStyle(document.documentElement);
+      const muted = style.getPropertyValue('--tx-muted').trim() || '#52525b';
+      const primary = style.getPropertyValue('--primary').trim() || '#6366f1';
+
+      ctx.clearRect(0, 0, W, H);
+
+      // Expected harmonic positions
+      if (latest) {
+        ctx.setLineDash([3, 3]);
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = muted;
+        ctx.fillStyle = muted;
+        ctx.font = '9px ui-monospace, monospace';
+        ctx.textAlign = 'center';
+        latest.harmonics.forEach(h => {
+          const x = freqToX(h.expected);
+          ctx.globalAlpha = 0.5;
+          ctx.beginPath();
+          ctx.moveTo(x, 10);
+          ctx.lineTo(x, H);
+          ctx.stroke();
+          ctx.globalAlpha = 1;
+          ctx.fillText(String(h.n), x, 8);
+        });
+        ctx.setLineDash([]);
+      }
+
+      // Spectrum curve
+      ctx.strokeStyle = primary;
+      ctx.lineWidth = 1.25;
+      ctx.beginPath();
+      let started = false;
+      const lo = Math.max(1, Math.floor(MIN_FREQ / binHz));
+      const hi = Math.min(spectrum.length - 1, Math.ceil(maxFreq / binHz));
+      for (let k = lo; k <= hi; k++) {
+        const x = freqToX(k * binHz);
+        const y = dbToY(spectrum[k]);
+        if (!started) { ctx.moveTo(x, y); started = true; } else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+
+      // Measured partials
+      if (latest) {
+        latest.harmonics.forEach(h => {
+          if (h.frequency === null) return;
+          const k = Math.round(h.frequency / binHz);
+          ctx.fillStyle = centsColor(h.cents);
+          ctx.beginPath();
+          ctx.arc(freqToX(h.frequency), dbToY(spectrum[k]), 3, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+    };
+    rafId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(rafId);
+  }, [analyserRef, fundamentalRef]);
+
+  const harmonics = analysis?.harmonics ?? [];
+
+  return (
+    <div className="space-y-3">
+      <canvas ref={canvasRef} className="w-full rounded-lg" style={{ height: 140, background: 'var(--bg-hover)' }} />
+
+      {analysis ? (
+        <>
+          <div className="flex items-center justify-between text-[11px]">
+            <span className="font-mono text-tx-sub">f₁ = {analysis.fundamental.toFixed(1)} Hz</span>
+            <span className="font-mono text-tx-sub">B = {analysis.inharmonicity.toExponential(1)}</span>
+            <span className="font-bold" style={{ color: analysis.inharmonic ? '#ef4444' : '#10b981' }}>
+              {analysis.inharmonic ? '泛音偏離（非諧和）' : '泛音列整齊'}
+            </span>
+          </div>
+          {/* Per-harmonic levels relative to the fundamental */}
+          <div className="flex items-end gap-1 h-20">
+            {harmonics.map(h => (
+              <div key={h.n} className="flex-1 flex flex-col items-center gap-0.5 h-full justify-end" title={h.frequency ? `${h.frequency.toFixed(1)} Hz, ${h.cents > 0 ? '+' : ''}${h.cents.toFixed(1)}¢` : '未偵測到'}>
+                <span className="text-[8px] font-mono" style={{ color: h.frequency ? centsColor(h.cents) : 'var(--tx-muted)' }}>
+                  {h.frequency && h.n > 1 ? `${h.cents > 0 ? '+' : ''}${Math.round(h.cents)}` : ''}
+                </span>
+                <div
+                  className="w-full rounded-t"
+                  style={{
+                    height: `${Math.max(2, 100 + (h.levelDb / 60) * 100)}%`,
+                    background: h.frequency ? 'var(--primary)' : 'var(--bd)',
+                    opacity: h.frequency ? 1 : 0.5,
+                  }}
+                />
+                <span className="text-[9px] font-mono text-tx-muted">{h.n}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-tx-muted">長條為各泛音相對基音的音量（0 ~ -60 dB），上方數字為偏離理想泛音的音分。</p>
+        </>
+      ) : (
+        <p className="text-[11px] text-tx-muted">請演奏一個持續的音以分析泛音。</p>
+      )}
+    </div>
+  );
+};
+
+export default SpectrumView;
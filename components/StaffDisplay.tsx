@@ -0,0 +1,131 @@
+
+import React, { useRef } from 'react';
+import { CLEF_BOTTOM_STEP, Clef, spellMidi, stepToMidi } from '../utils/melody';
+
+export interface StaffNote {
+  midi: number | null;     // null = not entered yet
+  beats: number;
+  status?: 'correct' | 'wrong';
+  expected?: number;       // shown as a ghost next to wrong notes
+}
+
+interface Props {
+  notes: StaffNote[];
+  clef: Clef;
+  preferFlats: boolean;
+  cursor?: number | null;  // slot awaiting input
+  playing?: number | null; // slot currently sounding
+  onPick?: (midi: number) => void;  // natural pitch of the clicked line / space
+}
+
+const HALF = 5;             // half a staff space (px)
+const STAFF_TOP = 40;
+const BOTTOM_Y = STAFF_TOP + 8 * HALF;
+const HEIGHT = 140;
+const CLEF_W = 48;
+const BAR_BEATS = 4;
+
+const slotWidth = (beats: number) => 30 + 14 * beats;
+
+const STATUS_COLOR = { correct: '#10b981', wrong: '#ef4444' };
+
+// Single-voice staff for dictation: note values from eighth to whole, sharps / flats, ledger lines and bar lines
+const StaffDisplay: React.FC<Props> = ({ notes, clef, preferFlats, cursor = null, playing = null, onPick }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const bottom = CLEF_BOTTOM_STEP[clef];
+  const stepY = (step: number) => BOTTOM_Y - (step - bottom) * HALF;
+
+  // Slot positions and bar lines
+  const xs: number[] = [];
+  const bars: number[] = [];
+  let x = CLEF_W;
+  let beatPos = 0;
+  notes.forEach(n => {
+    xs.push(x + slotWidth(n.beats) / 2);
+    x += slotWidth(n.beats);
+    beatPos += n.beats;
+    if (beatPos % BAR_BEATS === 0) bars.push(x);
+  });
+  const width = Math.max(x + 10, 200);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onPick || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+    onPick(stepToMidi(bottom + Math.round((BOTTOM_Y - y) / HALF)));
+  };
+
+  const renderHead = (midi: number, cx: number, beats: number, color: string, opacity = 1) => {
+    const { step, accidental } = spellMidi(midi, preferFlats);
+    const cy = stepY(step);
+    const hollow = beats >= 2;
+    const stemUp = step < bottom + 4;
+    const ledgers: number[] = [];
+    for (let s = bottom - 2; s >= step; s -= 2) ledgers.push(s);
+    for (let s = bottom + 10; s <= step; s += 2) ledgers.push(s);
+    return (
+      <g opacity={opacity}>
+        {ledgers.map(s => <line key={s} x1={cx - 10} x2={cx + 10} y1={stepY(s)} y2={stepY(s)} stroke="var(--tx-sub)" strokeWidth="1" />)}
+        {accidental !== 0 && (
+          <text x={cx - 11} y={cy + 4} textAnchor="end" fontSize="13" fill={color}>{accidental > 0 ? '♯' : '♭'}</text>
+        )}
+        <ellipse cx={cx} cy={cy} rx={6} ry={4.3} transform={`rotate(-20 ${cx} ${cy})`} fill={hollow ? 'none' : color} stroke={color} strokeWidth={hollow ? 1.6 : 1} />
+        {beats < 4 && (
+          stemUp
+            ? <line x1={cx + 5.6} x2={cx + 5.6} y1={cy - 1} y2={cy - 30} stroke={color} strokeWidth="1.2" />
+            : <line x1={cx - 5.6} x2={cx - 5.6} y1={cy + 1} y2={cy + 30} stroke={color} strokeWidth="1.2" />
+        )}
+        {beats === 0.5 && (
+          stemUp
+            ? <path d={`M${cx + 5.6},${cy - 30} q8,8 6,18`} fill="none" stroke={color} strokeWidth="1.4" />
+            : <path d={`M${cx - 5.6},${cy + 30} q8,-8 6,-18`} fill="none" stroke={color} strokeWidth="1.4" />
+        )}
+        {(beats === 1.5 || beats === 3) && <circle cx={cx + 10} cy={(step - bottom) % 2 === 0 ? cy - HALF : cy} r={1.6} fill={color} />}
+      </g>
+    );
+  };
+
+  return (
+    <div className="w-full overflow-x-auto no-scrollbar">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={HEIGHT}
+        viewBox={`0 0 ${width} ${HEIGHT}`}
+        onClick={handleClick}
+        className={onPick ? 'cursor-crosshair' : ''}
+        style={{ minWidth: width }}
+      >
+        {/* Cursor / playback highlight */}
+        {notes.map((n, i) => (i === cursor || i === playing) && (
+          <rect key={`hl-${i}`} x={xs[i] - slotWidth(n.beats) / 2 + 2} y={8} width={slotWidth(n.beats) - 4} height={HEIGHT - 16} rx={6}
+            fill={i === playing ? 'var(--primary-bg)' : 'var(--bg-hover)'} />
+        ))}
+
+        {[0, 1, 2, 3, 4].map(l => (
+          <line key={l} x1={4} x2={width - 4} y1={STAFF_TOP + l * 2 * HALF} y2={STAFF_TOP + l * 2 * HALF} stroke="var(--tx-muted)" strokeWidth="1" />
+        ))}
+        <text x={8} y={clef === 'treble' ? BOTTOM_Y + 6 : STAFF_TOP + 26} fontSize={clef === 'treble' ? 52 : 38} fill="var(--tx-sub)">
+          {clef === 'treble' ? '𝄞' : '𝄢'}
+        </text>
+        {bars.map((bx, i) => (
+          <line key={i} x1={bx} x2={bx} y1={STAFF_TOP} y2={BOTTOM_Y} stroke="var(--tx-muted)" strokeWidth={i === bars.length - 1 && bx === x ? 2 : 1} />
+        ))}
+
+        {notes.map((n, i) => {
+          const color = n.status ? STATUS_COLOR[n.status] : i === playing ? 'var(--primary)' : 'var(--tx)';
+          return (
+            <g key={i}>
+              {n.midi !== null
+                ? renderHead(n.midi, xs[i], n.beats, color)
+                : <text x={xs[i]} y={STAFF_TOP + 4 * HALF + 4} textAnchor="middle" fontSize="12" fill="var(--tx-muted)">?</text>}
+              {n.status === 'wrong' && n.expected !== undefined && renderHead(n.expected, xs[i] + 14, n.beats, STATUS_COLOR.correct, 0.45)}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default StaffDisplay;
@@ -0,0 +1,107 @@
+
+import React, { useEffect, useRef } from 'react';
+
+export interface StrobeReading {
+  cents: number;           // fractional cents off the target note
+  targetFrequency: number; // Hz
+}
+
+interface Props {
+  // Latest reading, null while silent. Read every animation frame so the tuner doesn't need to re-render.
+  readingRef: React.MutableRefObject<StrobeReading | null>;
+}
+
+const WIDTH = 300;
+const HEIGHT = 150;
+// Each band behaves like a strobe disc track locked to a partial of the target:
+// stripes per band and the partial number both double going down, as on a mechanical strobe
+const BANDS = [
+  { stripes: 8, partial: 1 },
+  { stripes: 16, partial: 2 },
+  { stripes: 32, partial: 4 },
+];
+// Visual slow-down: the fundamental band moves one stripe per second at this many Hz of beat;
+// a band on partial n moves n times as fast across the screen
+const BEAT_HZ_PER_STRIPE = 0.5;
+
+const readThemeColors = () => {
+  const style = getComputedStyle(document.documentElement);
+  return {
+    bg: style.getPropertyValue('--bg-hover').trim() || 'rgba(255,255,255,0.04)',
+    muted: style.getPropertyValue('--tx-muted').trim() || '#52525b',
+  };
+};
+
+const colorFor = (cents: number) => {
+  const abs = Math.abs(cents);
+  if (abs < 1) return '#10b981';
+  if (abs < 5) return '#f59e0b';
+  return '#ef4444';
+};
+
+// A strobe tuner: the pattern drifts at the beat rate between the detected pitch and the target,
+// so it stands still when in tune and even a fraction of a cent shows up as slow creep.
+const StrobeDisplay: React.FC<Props> = ({ readingRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    let rafId: number;
+    let last = performance.now();
+    const phases = BANDS.map(() => 0);
+    // Theme colours only change with the data-theme attribute, so they are read then rather than per frame
+    let theme = readThemeColors();
+    const themeObserver = new MutationObserver(() => { theme = readThemeColors(); });
+    themeObserver.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
+
+    const draw = (now: number) => {
+      rafId = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== WIDTH * dpr) {
+        canvas.width = WIDTH * dpr;
+        canvas.height = HEIGHT * dpr;
+        ctx.scale(dpr, dpr);
+      }
+
+      const dt = Math.min(0.1, (now - last) / 1000);
+      last = now;
+      const reading = readingRef.current;
+      const cents = reading ? reading.cents : null;
+      // Beat frequency between the detected and target fundamentals
+      const beatHz = reading ? reading.targetFrequency * (Math.pow(2, reading.cents / 1200) - 1) : 0;
+
+      const color = cents !== null ? colorFor(cents) : theme.muted;
+
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      const bandH = HEIGHT / BANDS.length;
+      BANDS.forEach((band, b) => {
+        phases[b] = (phases[b] + beatHz * band.partial * dt / BEAT_HZ_PER_STRIPE / BANDS[0].stripes) % 1;
+        const y = b * bandH;
+        ctx.fillStyle = theme.bg;
+        ctx.fillRect(0, y + 2, WIDTH, bandH - 4);
+        ctx.fillStyle = color;
+        ctx.globalAlpha = cents !== null ? 0.9 : 0.25;
+        const stripeW = WIDTH / band.stripes;
+        const offset = phases[b] * WIDTH;
+        for (let i = -1; i <= band.stripes; i++) {
+          const x = ((i * stripeW + offset) % WIDTH + WIDTH) % WIDTH;
+          ctx.fillRect(x, y + 2, stripeW / 2, bandH - 4);
+          if (x + stripeW / 2 > WIDTH) ctx.fillRect(x - WIDTH, y + 2, stripeW / 2, bandH - 4);
+        }
+        ctx.globalAlpha = 1;
+      });
+    };
+    rafId = requestAnimationFrame(draw);
+    return () => {
+      cancelAnimationFrame(rafId);
+      themeObserver.disconnect();
+    };
+  }, [readingRef]);
+
+  return <canvas ref={canvasRef} className="rounded-xl" style={{ width: WIDTH, height: HEIGHT }} />;
+};
+
+export default StrobeDisplay;
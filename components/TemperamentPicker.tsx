@@ -0,0 +1,44 @@
+
+import React, { useState } from 'react';
+import { NOTE_STRINGS } from '../utils/audioEngine';
+import { TEMPERAMENTS, TemperamentId, TemperamentSetting, getTemperament, setTemperament } from '../utils/temperaments';
+
+const TemperamentPicker: React.FC = () => {
+  const [setting, setLocal] = useState<TemperamentSetting>(getTemperament());
+
+  const update = (next: TemperamentSetting) => {
+    setTemperament(next);
+    setLocal(next);
+  };
+
+  const info = TEMPERAMENTS.find(t => t.id === setting.id);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="label shrink-0">律制</span>
+        <select
+          value={setting.id}
+          onChange={e => update({ ...setting, id: e.target.value as TemperamentId })}
+          className="flex-1 input-field p-1.5 text-xs cursor-pointer"
+          aria-label="律制"
+        >
+          {TEMPERAMENTS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        {setting.id !== 'equal' && (
+          <select
+            value={setting.tonic}
+            onChange={e => update({ ...setting, tonic: parseInt(e.target.value) })}
+            className="w-16 input-field p-1.5 text-xs cursor-pointer"
+            aria-label="主音"
+          >
+            {NOTE_STRINGS.map((n, pc) => <option key={n} value={pc}>{n}</option>)}
+          </select>
+        )}
+      </div>
+      {info && setting.id !== 'equal' && <p className="text-[10px] text-tx-muted">{info.desc}（主音 {NOTE_STRINGS[setting.tonic]}）</p>}
+    </div>
+  );
+};
+
+export default TemperamentPicker;
@@ -1,16 +1,43 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Mic, MicOff, Volume2, Settings2 } from 'lucide-react';
-import { getAudioContext, autoCorrelate, getNoteFromFrequency } from '../utils/audioEngine';
+import { Mic, MicOff, Volume2, Settings2, Circle, Square } from 'lucide-react';
+import { getAudioContext, frequencyToMidi, NOTE_STRINGS } from '../utils/audioEngine';
+import { PITCH_ALGORITHMS, PitchAlgorithm, getPitchAlgorithm, setPitchAlgorithm } from '../utils/pitchDetection';
+import { PitchTracker, TrackerFrame, startPitchTracker } from '../utils/pitchTracker';
+import { getNoteInTemperament, getTemperament } from '../utils/temperaments';
+import { ChordMatch, computeChroma, detectChord, bassPitchClass } from '../utils/chordDetection';
+import { IntonationReport, PitchSample, analyzeTake } from '../utils/intonationAnalysis';
+import { Tuning, findTuning, getSelectedTuningId, setSelectedTuningId, nearestString } from '../utils/tunings';
+import { MicInput, openMicInput, subscribeMicSettings } from '../utils/micInput';
 import { TunerData } from '../types';
+import ReferencePitchControl from './ReferencePitchControl';
+import TemperamentPicker from './TemperamentPicker';
+import TuningPanel from './TuningPanel';
+import StrobeDisplay, { StrobeReading } from './StrobeDisplay';
+import IntonationReportView from './IntonationReportView';
+import ChordDisplay from './ChordDisplay';
+import SpectrumView from './SpectrumView';
+import MicSettingsPanel from './MicSettingsPanel';
+import DronePanel from './DronePanel';
 
 const NOTE_LABELS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const HISTORY_DURATION = 6; // seconds of visible history
 const HISTORY_MAX = 360; // max stored points
 
-const DETECT_INTERVAL_MS = 80; // ~12.5fps instead of ~60fps
-const NOTE_STABILITY_THRESHOLD = 4; // need 4 consistent detections to switch note
-const EMA_ALPHA = 0.15; // lower = smoother (was 0.3)
+// Frames arrive at the tracker's rate; smoothing is expressed per SMOOTHING_STEP_MS so it
+// behaves the same whether the worklet (~47fps) or the analyser fallback (~12.5fps) is active
+const SMOOTHING_STEP_MS = 80;
+const NOTE_STABILITY_THRESHOLD = 4; // need 4 steps of consistent detections to switch note
+const EMA_ALPHA = 0.15; // per step, lower = smoother
+const STRING_TUNED_CENTS = 5;   // within this for STRING_TUNED_STEPS marks a string as tuned
+const STRING_TUNED_STEPS = 6;
+const STRING_DETUNED_CENTS = 15;
+const STROBE_ALPHA = 0.5; // per step; the strobe integrates drift itself so it needs little smoothing
+const DISPLAY_KEY = 'earlessly-tuner-display';
+const CHORD_INTERVAL_MS = 100;
+const CHROMA_ALPHA = 0.35; // per chord update
+
+type DisplayMode = 'gauge' | 'strobe' | 'chord';
 
 interface PitchPoint {
   time: number; // performance.now() ms
@@ -24,17 +51,46 @@ const Tuner: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [rmsThreshold, setRmsThreshold] = useState(0.03);
   const [showSettings, setShowSettings] = useState(false);
+  const [algorithm, setAlgorithm] = useState<PitchAlgorithm>(getPitchAlgorithm());
+  const [tuning, setTuning] = useState<Tuning | null>(() => findTuning(getSelectedTuningId()));
+  const [activeString, setActiveString] = useState<number | null>(null);
+  const [lockedString, setLockedString] = useState<number | null>(null);
+  const [tunedStrings, setTunedStrings] = useState<boolean[]>([]);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(() => {
+    try {
+      const stored = localStorage.getItem(DISPLAY_KEY);
+      return stored === 'strobe' || stored === 'chord' ? stored : 'gauge';
+    } catch { return 'gauge'; }
+  });
+  const [fineCents, setFineCents] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [report, setReport] = useState<IntonationReport | null>(null);
+  const [chord, setChord] = useState<ChordMatch | null>(null);
+  const [chroma, setChroma] = useState<number[]>([]);
+  const [showSpectrum, setShowSpectrum] = useState(false);
+  const [micSettingsVersion, setMicSettingsVersion] = useState(0);
 
   const audioRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const rafId = useRef<number | null>(null);
-  const bufferRef = useRef<Float32Array | null>(null);
+  const trackerRef = useRef<PitchTracker | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null); // FFT view of the same mic source (chord mode, spectrum view)
+  const micRef = useRef<MicInput | null>(null);
   const isListeningRef = useRef(false);
   const smoothedCentsRef = useRef(0);
   const smoothedNoteRef = useRef<{ note: string; octave: number; count: number }>({ note: '', octave: 0, count: 0 });
-  const lastDetectTimeRef = useRef(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
   const rmsThresholdRef = useRef(0.03);
+  const lastRmsRef = useRef(0);
+  const fundamentalRef = useRef<number | null>(null); // latest detected pitch, for the spectrum view
+  const tuningRef = useRef(tuning);
+  const lockedStringRef = useRef<number | null>(null);
+  const tunedHoldRef = useRef<number[]>([]);
+  const tunedStringsRef = useRef<boolean[]>([]);
+  const strobeReadingRef = useRef<StrobeReading | null>(null);
+
+  // Recorded take: every tracker frame while recording (unlike the capped history below)
+  const isRecordingRef = useRef(false);
+  const takeRef = useRef<PitchSample[]>([]);
+  const takeStartRef = useRef(0);
 
   // Pitch history
   const pitchHistoryRef = useRef<PitchPoint[]>([]);
@@ -43,21 +99,24 @@ const Tuner: React.FC = () => {
 
   const startTuner = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       const ctx = getAudioContext();
-      if (ctx.state === 'suspended') await ctx.resume();
+      const mic = await openMicInput(ctx);
       audioRef.current = ctx;
+      micRef.current = mic;
+      const { source } = mic;
       const analyser = ctx.createAnalyser();
-      analyser.fftSize = 2048;
-      analyserRef.current = analyser;
-      bufferRef.current = new Float32Array(analyser.fftSize);
-      const source = ctx.createMediaStreamSource(stream);
+      analyser.fftSize = 16384; // ~3Hz bins, fine enough to separate low guitar notes
+      analyser.smoothingTimeConstant = 0.5;
       source.connect(analyser);
-      sourceRef.current = source;
+      analyserRef.current = analyser;
       isListeningRef.current = true;
+      lastFrameTimeRef.current = null;
+      const tracker = await startPitchTracker(ctx, source, handleFrame, { rmsThreshold: rmsThresholdRef.current, algorithm });
+      // Stopped (or unmounted) while the worklet was loading
+      if (!isListeningRef.current) { tracker.stop(); return; }
+      trackerRef.current = tracker;
       setIsListening(true);
       setError(null);
-      updatePitch();
     } catch (err) {
       console.error(err);
       setError("無法取得麥克風權限或麥克風不可用。");
@@ -65,52 +124,56 @@ const Tuner: React.FC = () => {
   };
 
   const stopTuner = () => {
+    if (isRecordingRef.current) stopRecording();
     isListeningRef.current = false;
-    if (rafId.current !== null) { cancelAnimationFrame(rafId.current); rafId.current = null; }
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current.mediaStream.getTracks().forEach(track => track.stop());
-      sourceRef.current = null;
-    }
+    trackerRef.current?.stop();
+    trackerRef.current = null;
+    analyserRef.current = null;
+    fundamentalRef.current = null;
+    setChord(null);
+    setChroma([]);
+    micRef.current?.close();
+    micRef.current = null;
     setIsListening(false);
     setTunerData(null);
+    setActiveString(null);
     setMicVolume(0);
     pitchHistoryRef.current = [];
+    strobeReadingRef.current = null;
   };
 
-  const updatePitch = () => {
-    if (!isListeningRef.current || !analyserRef.current || !audioRef.current || !bufferRef.current) return;
+  const handleFrame = ({ frequency, rms, time }: TrackerFrame) => {
+    if (!isListeningRef.current) return;
 
     const now = performance.now();
-    // Throttle detection to DETECT_INTERVAL_MS
-    if (now - lastDetectTimeRef.current < DETECT_INTERVAL_MS) {
-      rafId.current = requestAnimationFrame(updatePitch);
-      return;
+    // How many smoothing steps this frame represents
+    const steps = lastFrameTimeRef.current === null ? 1 : Math.min(4, (time - lastFrameTimeRef.current) * 1000 / SMOOTHING_STEP_MS);
+    lastFrameTimeRef.current = time;
+    lastRmsRef.current = rms;
+    setMicVolume(rms);
+    const valid = Number.isFinite(frequency) && frequency > 20 && frequency < 5000;
+    fundamentalRef.current = valid ? frequency : null;
+    if (isRecordingRef.current) {
+      takeRef.current.push({ time: time - takeStartRef.current, frequency: valid ? frequency : -1, rms });
     }
-    lastDetectTimeRef.current = now;
-
-    analyserRef.current.getFloatTimeDomainData(bufferRef.current);
-    let sumSquares = 0.0;
-    for (const amplitude of bufferRef.current) sumSquares += amplitude * amplitude;
-    const volume = Math.sqrt(sumSquares / bufferRef.current.length);
-    setMicVolume(volume);
-    const frequency = autoCorrelate(bufferRef.current, audioRef.current.sampleRate, rmsThresholdRef.current);
-    if (Number.isFinite(frequency) && frequency > 20 && frequency < 5000) {
-      const raw = getNoteFromFrequency(frequency);
+    if (valid) {
+      const activeTuning = tuningRef.current;
+      const raw: TunerData = activeTuning ? stringTarget(frequency, activeTuning) : getNoteInTemperament(frequency, getTemperament());
       // Note stability: only switch displayed note after consistent detections
       const noteKey = `${raw.note}${raw.octave}`;
       const prev = smoothedNoteRef.current;
       if (noteKey === `${prev.note}${prev.octave}`) {
-        prev.count = Math.min(prev.count + 1, 20);
+        prev.count = Math.min(prev.count + steps, 20);
       } else {
-        prev.count--;
+        prev.count -= steps;
         if (prev.count <= 0) {
           smoothedNoteRef.current = { note: raw.note as string, octave: raw.octave, count: 2 };
           smoothedCentsRef.current = raw.cents;
         }
       }
       // EMA smoothing on cents to reduce jitter
-      smoothedCentsRef.current = smoothedCentsRef.current * (1 - EMA_ALPHA) + raw.cents * EMA_ALPHA;
+      const alpha = 1 - Math.pow(1 - EMA_ALPHA, steps);
+      smoothedCentsRef.current = smoothedCentsRef.current * (1 - alpha) + raw.cents * alpha;
       const stableNote = smoothedNoteRef.current;
       setTunerData({
         ...raw,
@@ -118,16 +181,86 @@ const Tuner: React.FC = () => {
         octave: stableNote.count >= NOTE_STABILITY_THRESHOLD ? stableNote.octave : raw.octave,
         cents: Math.round(smoothedCentsRef.current),
       });
+      // Strobe: lightly smoothed, unrounded deviation from the note actually being played
+      const prevReading = strobeReadingRef.current;
+      const strobeAlpha = 1 - Math.pow(1 - STROBE_ALPHA, steps);
+      const strobeCents = prevReading ? prevReading.cents * (1 - strobeAlpha) + raw.cents * strobeAlpha : raw.cents;
+      strobeReadingRef.current = { cents: strobeCents, targetFrequency: frequency / Math.pow(2, raw.cents / 1200) };
+      setFineCents(strobeCents);
+      if (activeTuning) trackStrings(activeTuning, stableNote.count >= NOTE_STABILITY_THRESHOLD ? stableNote : raw, steps);
 
       // Record pitch history
-      const semitone = 12 * (Math.log(frequency / 440) / Math.log(2)) + 69;
+      const semitone = frequencyToMidi(frequency);
       const history = pitchHistoryRef.current;
       history.push({ time: now, semitone });
       if (history.length > HISTORY_MAX) history.splice(0, history.length - HISTORY_MAX);
     } else {
+      strobeReadingRef.current = null;
       setTunerData(prev => prev ? { ...prev, isSilent: true } : null);
     }
-    rafId.current = requestAnimationFrame(updatePitch);
+  };
+
+  const startRecording = () => {
+    takeRef.current = [];
+    takeStartRef.current = audioRef.current?.currentTime ?? 0;
+    isRecordingRef.current = true;
+    setIsRecording(true);
+    setReport(null);
+  };
+
+  const stopRecording = () => {
+    isRecordingRef.current = false;
+    setIsRecording(false);
+    // In instrument mode strings are equal-tempered; otherwise grade against the chosen temperament
+    setReport(analyzeTake(takeRef.current, tuningRef.current ? undefined : getTemperament()));
+    takeRef.current = [];
+  };
+
+  const changeDisplayMode = (mode: DisplayMode) => {
+    setDisplayMode(mode);
+    try { localStorage.setItem(DISPLAY_KEY, mode); } catch { /* storage unavailable */ }
+  };
+
+  // Target-string mode: the "note" is the nearest (or locked) string and cents are measured against it
+  const stringTarget = (frequency: number, tuning: Tuning): TunerData => {
+    const locked = lockedStringRef.current;
+    const { index, cents } = locked !== null && locked < tuning.strings.length
+      ? { index: locked, cents: (frequencyToMidi(frequency) - tuning.strings[locked]) * 100 }
+      : nearestString(frequency, tuning);
+    const midi = tuning.strings[index];
+    return { note: NOTE_STRINGS[midi % 12], octave: Math.floor(midi / 12) - 1, cents, frequency, isSilent: false };
+  };
+
+  const trackStrings = (tuning: Tuning, note: { note: string; octave: number }, steps: number) => {
+    const midi = (note.octave + 1) * 12 + NOTE_STRINGS.indexOf(note.note as TunerData['note']);
+    const index = tuning.strings.indexOf(midi);
+    setActiveString(index >= 0 ? index : null);
+    if (index < 0) return;
+    const cents = Math.abs(smoothedCentsRef.current);
+    const hold = tunedHoldRef.current;
+    hold[index] = cents < STRING_TUNED_CENTS ? (hold[index] ?? 0) + steps : 0;
+    const tuned = tunedStringsRef.current;
+    const next = hold[index] >= STRING_TUNED_STEPS ? true : cents > STRING_DETUNED_CENTS ? false : !!tuned[index];
+    if (next !== !!tuned[index]) {
+      tunedStringsRef.current = tuning.strings.map((_, i) => i === index ? next : !!tuned[i]);
+      setTunedStrings(tunedStringsRef.current);
+    }
+  };
+
+  const selectTuning = (id: string | null) => {
+    const next = findTuning(id);
+    setSelectedTuningId(next ? next.id : null);
+    setTuning(next);
+    tuningRef.current = next;
+    tunedHoldRef.current = [];
+    tunedStringsRef.current = [];
+    setTunedStrings([]);
+    setActiveString(null);
+  };
+
+  const lockString = (index: number | null) => {
+    lockedStringRef.current = index;
+    setLockedString(index);
   };
 
   // Draw pitch history on canvas
@@ -268,8 +401,33 @@ const Tuner: React.FC = () => {
     };
   }, [isListening, drawHistory]);
 
+  // Chord recognition: chromagram from the analyser, smoothed across updates
+  useEffect(() => {
+    if (!isListening || displayMode !== 'chord') return;
+    const spectrum = new Float32Array(analyserRef.current?.frequencyBinCount ?? 0);
+    const smoothed = new Float32Array(12);
+    const id = window.setInterval(() => {
+      const analyser = analyserRef.current;
+      if (!analyser || !audioRef.current) return;
+      analyser.getFloatFrequencyData(spectrum);
+      const sampleRate = audioRef.current.sampleRate;
+      const frame = computeChroma(spectrum, sampleRate);
+      for (let i = 0; i < 12; i++) smoothed[i] = smoothed[i] * (1 - CHROMA_ALPHA) + frame[i] * CHROMA_ALPHA;
+      const silent = lastRmsRef.current < rmsThresholdRef.current;
+      setChroma(silent ? [] : Array.from(smoothed));
+      setChord(silent ? null : detectChord(smoothed, undefined, undefined, bassPitchClass(spectrum, sampleRate)));
+    }, CHORD_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [isListening, displayMode]);
+
   useEffect(() => { return () => { stopTuner(); }; }, []);
 
+  // Reopen the mic with the new device / processing flags
+  useEffect(() => subscribeMicSettings(() => setMicSettingsVersion(v => v + 1)), []);
+  useEffect(() => {
+    if (micSettingsVersion && isListeningRef.current) { stopTuner(); startTuner(); }
+  }, [micSettingsVersion]);
+
   const getGaugeColor = (cents: number) => {
     const absCents = Math.abs(cents);
     if (absCents < 5) return '#10b981';
@@ -348,56 +506,98 @@ const Tuner: React.FC = () => {
 
   const hasData = tunerData && micVolume > 0.005;
   const inTune = hasData && Math.abs(tunerData!.cents) < 5;
+  // Smoothed pitch (strobe reading) for the drone's just-interval readout
+  const strobeReading = strobeReadingRef.current;
+  const droneFrequency = hasData && !tunerData!.isSilent && strobeReading ? strobeReading.targetFrequency * Math.pow(2, fineCents / 1200) : null;
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[calc(100vh-56px)] w-full p-4 sm:p-8 space-y-6 animate-slide-up">
-      {/* Gauge */}
-      <div className="relative">
-        {renderGauge()}
-        {inTune && (
-          <div className="absolute inset-0 rounded-full animate-glow-success pointer-events-none" />
-        )}
+      {/* Display mode */}
+      <div className="flex gap-1.5">
+        {([['gauge', '指針'], ['strobe', '頻閃'], ['chord', '和弦']] as const).map(([mode, label]) => (
+          <button key={mode} onClick={() => changeDisplayMode(mode)} className={`chip ${displayMode === mode ? 'chip-active' : ''}`}>{label}</button>
+        ))}
       </div>
 
-      {/* Note Display */}
-      <div className="text-center space-y-2 h-32 flex flex-col items-center justify-center">
-        {hasData ? (
-          <div className="animate-scale-in">
-            <div className="flex items-baseline justify-center gap-1">
-              <span
-                className="text-7xl sm:text-8xl font-black tracking-tighter"
-                style={{
-                  color: inTune ? '#10b981' : 'var(--tx)',
-                  textShadow: inTune ? '0 0 24px rgba(16,185,129,0.25)' : 'none',
-                  transition: 'color 0.2s, text-shadow 0.2s'
-                }}
-              >
-                {tunerData!.note}
-              </span>
-              <span className="text-2xl sm:text-3xl font-medium text-tx-muted">{tunerData!.octave}</span>
-            </div>
-            <div className="flex items-center justify-center gap-3 mt-2">
-              <span className="text-sm font-mono text-tx-muted">{tunerData!.frequency.toFixed(1)} Hz</span>
-              <span
-                className="px-3 py-1 rounded-full text-xs font-bold"
-                style={{
-                  background: 'var(--input-bg)',
-                  border: '1px solid var(--bd)',
-                  color: getGaugeColor(tunerData!.cents),
-                }}
-              >
-                {tunerData!.cents > 0 ? '+' : ''}{tunerData!.cents} ¢
-              </span>
-            </div>
-          </div>
-        ) : (
-          <div className="flex flex-col items-center justify-center h-full space-y-2">
-            <div className="text-sm font-semibold uppercase tracking-[0.12em] text-tx-muted">
-              {isListening ? "正在聆聽..." : "按下開始進行調音"}
+      {displayMode === 'chord' ? (
+        <ChordDisplay chord={chord} chroma={chroma} isListening={isListening} />
+      ) : (
+        <>
+          {/* Gauge / Strobe */}
+          {displayMode === 'gauge' ? (
+            <div className="relative">
+              {renderGauge()}
+              {inTune && (
+                <div className="absolute inset-0 rounded-full animate-glow-success pointer-events-none" />
+              )}
             </div>
-            {isListening && <div className="text-xs text-tx-muted">請彈奏或唱出一個長音</div>}
+          ) : (
+            <StrobeDisplay readingRef={strobeReadingRef} />
+          )}
+
+          {/* Note Display */}
+          <div className="text-center space-y-2 h-32 flex flex-col items-center justify-center">
+            {hasData ? (
+              <div className="animate-scale-in">
+                <div className="flex items-baseline justify-center gap-1">
+                  <span
+                    className="text-7xl sm:text-8xl font-black tracking-tighter"
+                    style={{
+                      color: inTune ? '#10b981' : 'var(--tx)',
+                      textShadow: inTune ? '0 0 24px rgba(16,185,129,0.25)' : 'none',
+                      transition: 'color 0.2s, text-shadow 0.2s'
+                    }}
+                  >
+                    {tunerData!.note}
+                  </span>
+                  <span className="text-2xl sm:text-3xl font-medium text-tx-muted">{tunerData!.octave}</span>
+                </div>
+                <div className="flex items-center justify-center gap-3 mt-2">
+                  <span className="text-sm font-mono text-tx-muted">{tunerData!.frequency.toFixed(1)} Hz</span>
+                  <span
+                    className="px-3 py-1 rounded-full text-xs font-bold"
+                    style={{
+                      background: 'var(--input-bg)',
+                      border: '1px solid var(--bd)',
+                      color: getGaugeColor(tunerData!.cents),
+                    }}
+                  >
+                    {displayMode === 'strobe'
+                      ? `${fineCents > 0 ? '+' : ''}${fineCents.toFixed(1)} ¢`
+                      : `${tunerData!.cents > 0 ? '+' : ''}${tunerData!.cents} ¢`}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full space-y-2">
+                <div className="text-sm font-semibold uppercase tracking-[0.12em] text-tx-muted">
+                  {isListening ? "正在聆聽..." : "按下開始進行調音"}
+                </div>
+                {isListening && <div className="text-xs text-tx-muted">請彈奏或唱出一個長音</div>}
+              </div>
+            )}
           </div>
-        )}
+        </>
+      )}
+
+      {/* Reference Pitch */}
+      <div className="w-72 card px-3 py-2 space-y-2">
+        <ReferencePitchControl />
+        {!tuning && <TemperamentPicker />}
+        <TuningPanel
+          tuning={tuning}
+          onSelect={selectTuning}
+          activeString={activeString}
+          tunedStrings={tunedStrings}
+          lockedString={lockedString}
+          onLockString={lockString}
+        />
+      </div>
+
+      {/* Drone */}
+      <div className="w-72 card p-3 space-y-2">
+        <div className="label">持續音</div>
+        <DronePanel frequency={droneFrequency} />
       </div>
 
       {/* Volume Meter & Settings */}
@@ -453,6 +653,7 @@ const Tuner: React.FC = () => {
                     const v = parseFloat(e.target.value);
                     setRmsThreshold(v);
                     rmsThresholdRef.current = v;
+                    trackerRef.current?.setRmsThreshold(v);
                   }}
                   className="w-full accent-primary cursor-pointer"
                 />
@@ -464,6 +665,22 @@ const Tuner: React.FC = () => {
               <p className="text-[11px] text-tx-muted leading-relaxed">
                 提高閾值可過濾環境噪音和餘音，讓調音器只對明確的彈奏做出反應。
               </p>
+              <div className="space-y-1.5">
+                <span className="label">偵測演算法</span>
+                <div className="flex gap-1.5">
+                  {PITCH_ALGORITHMS.map(a => (
+                    <button
+                      key={a.id}
+                      onClick={() => { setPitchAlgorithm(a.id); setAlgorithm(a.id); trackerRef.current?.setAlgorithm(a.id); }}
+                      className={`chip flex-1 justify-center ${algorithm === a.id ? 'chip-active' : ''}`}
+                    >{a.label}</button>
+                  ))}
+                </div>
+                <p className="text-[10px] text-tx-muted">{PITCH_ALGORITHMS.find(a => a.id === algorithm)?.desc}</p>
+              </div>
+              <div className="pt-2 border-t border-bd">
+                <MicSettingsPanel />
+              </div>
             </div>
           )}
         </div>
@@ -481,6 +698,22 @@ const Tuner: React.FC = () => {
         </div>
       )}
 
+      {/* Harmonic Spectrum */}
+      {isListening && (
+        <div className="w-full max-w-lg card p-4 space-y-3 animate-fade-in">
+          <button onClick={() => setShowSpectrum(v => !v)} className="w-full flex items-center justify-between cursor-pointer">
+            <span className="label">泛音頻譜</span>
+            <div className={`toggle-track ${showSpectrum ? 'active' : ''}`}>
+              <div className="toggle-thumb"></div>
+            </div>
+          </button>
+          {showSpectrum && <SpectrumView analyserRef={analyserRef} fundamentalRef={fundamentalRef} />}
+        </div>
+      )}
+
+      {/* Intonation Report */}
+      {report && <IntonationReportView report={report} onClose={() => setReport(null)} />}
+
       {error && (
         <div className="p-3 rounded-xl text-sm text-danger animate-scale-in" style={{ background: 'rgba(239,68,68,0.08)', border: '1px solid rgba(239,68,68,0.2)' }}>
           {error}
@@ -488,18 +721,32 @@ const Tuner: React.FC = () => {
       )}
 
       {/* Start/Stop Button */}
-      <button
-        onClick={isListening ? stopTuner : startTuner}
-        className={`flex items-center gap-2.5 px-8 py-3.5 rounded-xl text-sm font-bold transition-all duration-150 cursor-pointer active:scale-95 ${
-          isListening
-            ? 'bg-danger text-white hover:bg-red-600'
-            : 'btn-primary animate-glow-pulse'
-        }`}
-        style={isListening ? {} : { padding: '14px 32px' }}
-      >
-        {isListening ? <MicOff size={18} /> : <Mic size={18} />}
-        {isListening ? '停止' : '開始調音'}
-      </button>
+      <div className="flex items-center gap-3">
+        {isListening && (
+          <button
+            onClick={isRecording ? stopRecording : startRecording}
+            className="flex items-center gap-2 px-5 py-3.5 rounded-xl text-sm font-bold transition-all duration-150 cursor-pointer active:scale-95"
+            style={isRecording
+              ? { background: 'rgba(239,68,68,0.1)', border: '1px solid #ef4444', color: '#ef4444' }
+              : { background: 'var(--input-bg)', border: '1px solid var(--bd)', color: 'var(--tx-sub)' }}
+          >
+            {isRecording ? <Square size={14} fill="currentColor" /> : <Circle size={14} fill="#ef4444" className="text-danger" />}
+            {isRecording ? '結束錄製' : '錄製分析'}
+          </button>
+        )}
+        <button
+          onClick={isListening ? stopTuner : startTuner}
+          className={`flex items-center gap-2.5 px-8 py-3.5 rounded-xl text-sm font-bold transition-all duration-150 cursor-pointer active:scale-95 ${
+            isListening
+              ? 'bg-danger text-white hover:bg-red-600'
+              : 'btn-primary animate-glow-pulse'
+          }`}
+          style={isListening ? {} : { padding: '14px 32px' }}
+        >
+          {isListening ? <MicOff size={18} /> : <Mic size={18} />}
+          {isListening ? '停止' : '開始調音'}
+        </button>
+      </div>
     </div>
   );
 };
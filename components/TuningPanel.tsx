@@ -0,0 +1,152 @@
+
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Tuning, TUNING_PRESETS, MAX_STRINGS, midiLabel, getCustomTunings, saveCustomTuning, deleteCustomTuning } from '../utils/tunings';
+
+interface Props {
+  tuning: Tuning | null;
+  onSelect: (id: string | null) => void;
+  activeString: number | null;
+  tunedStrings: boolean[];
+  lockedString: number | null;
+  onLockString: (index: number | null) => void;
+}
+
+const NOTE_RANGE = Array.from({ length: 96 - 21 + 1 }, (_, i) => 21 + i); // A0 ~ C7
+
+const TuningPanel: React.FC<Props> = ({ tuning, onSelect, activeString, tunedStrings, lockedString, onLockString }) => {
+  const [customTunings, setCustomTunings] = useState(getCustomTunings());
+  const [draft, setDraft] = useState<{ id?: string; label: string; strings: number[] } | null>(null);
+
+  const groups = Array.from(new Set(TUNING_PRESETS.map(t => t.group)));
+
+  const startNew = () => setDraft({ label: '', strings: tuning ? [...tuning.strings] : [40, 45, 50, 55, 59, 64] });
+  const startEdit = () => tuning && setDraft({ id: tuning.id, label: tuning.label, strings: [...tuning.strings] });
+
+  const saveDraft = () => {
+    if (!draft || draft.strings.length === 0) return;
+    const saved = saveCustomTuning(draft.label, draft.strings, draft.id);
+    setCustomTunings(getCustomTunings());
+    setDraft(null);
+    onSelect(saved.id);
+    // The edit may have removed or retuned the locked string
+    onLockString(null);
+  };
+
+  const removeSelected = () => {
+    if (!tuning?.custom || !confirm(`刪除自訂調弦「${tuning.label}」？`)) return;
+    deleteCustomTuning(tuning.id);
+    setCustomTunings(getCustomTunings());
+    onSelect(null);
+    onLockString(null);
+  };
+
+  const setDraftString = (i: number, midi: number) =>
+    setDraft(d => d && { ...d, strings: d.strings.map((m, j) => j === i ? midi : m) });
+
+  if (draft) {
+    return (
+      <div className="space-y-2 animate-fade-in">
+        <input
+          value={draft.label}
+          onChange={e => setDraft({ ...draft, label: e.target.value })}
+          placeholder="調弦名稱"
+          className="w-full input-field p-1.5 text-xs"
+          aria-label="調弦名稱"
+        />
+        <div className="flex flex-wrap gap-1">
+          {draft.strings.map((midi, i) => (
+            <select
+              key={i}
+              value={midi}
+              onChange={e => setDraftString(i, parseInt(e.target.value))}
+              className="input-field p-1 text-[11px] font-mono cursor-pointer"
+              aria-label={`第 ${i + 1} 弦`}
+            >
+              {NOTE_RANGE.map(m => <option key={m} value={m}>{midiLabel(m)}</option>)}
+            </select>
+          ))}
+          {draft.strings.length < MAX_STRINGS && (
+            <button
+              onClick={() => setDraft({ ...draft, strings: [...draft.strings, draft.strings[draft.strings.length - 1] ?? 48] })}
+              className="chip" aria-label="新增一弦"
+            ><Plus size={11} /></button>
+          )}
+          {draft.strings.length > 1 && (
+            <button onClick={() => setDraft({ ...draft, strings: draft.strings.slice(0, -1) })} className="chip" aria-label="移除一弦">
+              <X size={11} />
+            </button>
+          )}
+        </div>
+        <div className="flex gap-1.5">
+          <button onClick={saveDraft} className="btn-primary flex-1 py-1.5 text-xs">儲存</button>
+          <button onClick={() => setDraft(null)} className="btn-ghost flex-1 py-1.5 text-xs">取消</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="label shrink-0">樂器</span>
+        <select
+          value={tuning?.id ?? ''}
+          onChange={e => { onSelect(e.target.value || null); onLockString(null); }}
+          className="flex-1 min-w-0 input-field p-1.5 text-xs cursor-pointer"
+          aria-label="樂器調弦"
+        >
+          <option value="">半音階（不限樂器）</option>
+          {groups.map(g => (
+            <optgroup key={g} label={g}>
+              {TUNING_PRESETS.filter(t => t.group === g).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </optgroup>
+          ))}
+          {customTunings.length > 0 && (
+            <optgroup label="自訂">
+              {customTunings.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {tuning?.custom && (
+          <>
+            <button onClick={startEdit} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="編輯調弦"><Pencil size={12} className="text-tx-muted" /></button>
+            <button onClick={removeSelected} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="刪除調弦"><Trash2 size={12} className="text-tx-muted" /></button>
+          </>
+        )}
+        <button onClick={startNew} className="p-1 rounded hover:bg-bg-hover cursor-pointer" aria-label="新增自訂調弦"><Plus size={13} className="text-tx-muted" /></button>
+      </div>
+
+      {tuning && (
+        <div className="flex gap-1 animate-fade-in">
+          {tuning.strings.map((midi, i) => {
+            const active = activeString === i;
+            const locked = lockedString === i;
+            return (
+              <button
+                key={i}
+                onClick={() => onLockString(locked ? null : i)}
+                className="flex-1 flex flex-col items-center py-1 rounded-lg cursor-pointer transition-all"
+                style={{
+                  background: active ? 'var(--primary-bg)' : 'var(--input-bg)',
+                  border: `1px solid ${locked ? 'var(--primary)' : active ? 'var(--primary-sub)' : 'var(--bd)'}`,
+                }}
+                title={locked ? '點擊恢復自動偵測' : '點擊鎖定此弦'}
+              >
+                <span className="text-[11px] font-bold font-mono" style={{ color: tunedStrings[i] ? '#10b981' : active ? 'var(--primary)' : 'var(--tx-sub)' }}>
+                  {midiLabel(midi)}
+                </span>
+                <span className="h-3 flex items-center">
+                  {tunedStrings[i] && <Check size={10} className="text-success" />}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {tuning && <p className="text-[10px] text-tx-muted">{lockedString !== null ? '已鎖定目標弦，點擊同一弦恢復自動偵測' : '自動選擇最接近的弦，點擊可鎖定'}</p>}
+    </div>
+  );
+};
+
+export default TuningPanel;
@@ -56,16 +56,33 @@ export interface SpeedTrainerSettings {
 }
 
 // Ear Training Types
+// Intervals, symbols and groupings live in utils/chords.ts
 export enum ChordQuality {
   MAJOR = 'Major',
   MINOR = 'Minor',
   DIMINISHED = 'Diminished',
   AUGMENTED = 'Augmented',
+  SUS2 = 'Sus2',
+  SUS4 = 'Sus4',
+  MAJOR_6 = 'Major 6',
+  MINOR_6 = 'Minor 6',
+  ADD_9 = 'Add 9',
   MAJOR_7 = 'Major 7',
   MINOR_7 = 'Minor 7',
   DOMINANT_7 = 'Dominant 7',
   HALF_DIM = 'm7b5',
-  DIMINISHED_7 = 'Diminished 7'
+  DIMINISHED_7 = 'Diminished 7',
+  MINOR_MAJOR_7 = 'Minor Major 7',
+  AUGMENTED_7 = 'Augmented 7',
+  DOMINANT_9 = 'Dominant 9',
+  MAJOR_9 = 'Major 9',
+  MINOR_9 = 'Minor 9',
+  DOMINANT_11 = 'Dominant 11',
+  DOMINANT_13 = 'Dominant 13',
+  DOM_7_FLAT_9 = '7b9',
+  DOM_7_SHARP_9 = '7#9',
+  DOM_7_SHARP_11 = '7#11',
+  DOM_7_ALT = '7alt',
 }
 
 export enum IntervalQuality {
@@ -83,6 +100,21 @@ export enum IntervalQuality {
   P8 = 'Octave'
 }
 
+export const INTERVAL_SEMITONES: Record<IntervalQuality, number> = {
+  [IntervalQuality.m2]: 1,
+  [IntervalQuality.M2]: 2,
+  [IntervalQuality.m3]: 3,
+  [IntervalQuality.M3]: 4,
+  [IntervalQuality.P4]: 5,
+  [IntervalQuality.TT]: 6,
+  [IntervalQuality.P5]: 7,
+  [IntervalQuality.m6]: 8,
+  [IntervalQuality.M6]: 9,
+  [IntervalQuality.m7]: 10,
+  [IntervalQuality.M7]: 11,
+  [IntervalQuality.P8]: 12,
+};
+
 export interface EarTrainingSettings {
   mode: 'note' | 'chord' | 'interval' | 'vocal'; 
   selectedNotes: NoteName[];
@@ -90,6 +122,7 @@ export interface EarTrainingSettings {
   polyphony: number; // 1, 2, 3 for notes
   chordQualities: ChordQuality[];
   intervalQualities: IntervalQuality[]; 
+  adaptive?: boolean; // weight questions toward weak items (see utils/adaptiveScheduler)
 }
 
 export interface Question {
@@ -135,6 +168,7 @@ export interface ProgressionDef {
   label: string;
   degrees: number[][]; // each chord = array of semitone offsets from tonic
   romanNumerals: string[];
+  custom?: boolean;
 }
 
 export const PROGRESSIONS: ProgressionDef[] = [
@@ -152,6 +186,25 @@ export const PROGRESSIONS: ProgressionDef[] = [
   { id: 'I_bVII_IV_I',  label: 'I - bVII - IV - I',     romanNumerals: ['I','bVII','IV','I'],    degrees: [[0,4,7],[10,14,17],[5,9,12],[12,16,19]] },
 ];
 
+export type ProgressionMode = 'choice' | 'dictation';
+export type KeyMode = 'major' | 'minor';
+export type HarmonicFunction = 'T' | 'PD' | 'D';
+
+// One chord of a generated harmonic-dictation progression
+export interface HarmonyChord {
+  numeral: string;      // e.g. 'ii', 'V7', 'V7/V'
+  inversion: number;    // 0 = root position … 3 = third inversion (sevenths only)
+  fn: HarmonicFunction;
+  degrees: number[];    // semitone offsets from the tonic, bass first
+  bass: number;         // bass pitch class relative to the tonic (0–11)
+}
+
+export interface HarmonyQuestion {
+  tonic: number;        // MIDI
+  mode: KeyMode;
+  chords: HarmonyChord[];
+}
+
 // Rhythm Training Types
 export type RhythmDifficulty = 'easy' | 'medium' | 'hard';
 export type RhythmMode = 'tap' | 'dictation';
@@ -184,3 +237,60 @@ export interface PitchMatchResult {
   centsError: number;
   score: number;
 }
+
+// Singing Training Types
+export type SingingTask = 'interval' | 'echo';
+export type SingingDirection = 'up' | 'down' | 'both';
+
+export interface SingingQuestion {
+  task: SingingTask;
+  prompt: number[];    // MIDI notes played to the singer
+  targets: number[];   // MIDI notes the singer should produce
+  onsets: number[];    // expected onset of each target, seconds after the first one
+  label: string;       // e.g. "C4 ↑ Perfect 5th"
+}
+
+export interface SingingNoteResult {
+  target: number;
+  sung: number | null;         // median sung pitch (fractional MIDI), null if the note was missed
+  cents: number | null;        // deviation from the target; echo notes are shifted by the result's octaveShift
+  timingError: number | null;  // seconds late (+) / early (-) relative to the first sung note; echo only
+  score: number;               // 0~100
+}
+
+export interface SingingResult {
+  notes: SingingNoteResult[];
+  score: number;
+  octaveShift: number;         // echo: octaves the singer sat away from the prompt (e.g. -1 for a lower voice); always 0 for intervals
+}
+
+// Melodic Dictation Types
+export type MelodyRhythm = 'even' | 'simple' | 'dotted';
+
+export interface MelodyNote {
+  midi: number;
+  beats: number;    // duration in quarter notes (0.5 = eighth, 1.5 = dotted quarter, ...)
+}
+
+export interface MelodyQuestion {
+  tonic: number;       // MIDI of the tonic below (or at) the melody's range
+  scale: ScaleType;
+  notes: MelodyNote[];
+  preferFlats: boolean;
+}
+
+// Practice History Types
+export type TrainerMode = 'note' | 'chord' | 'interval' | 'vocal' | 'frequency' | 'rhythm' | 'progression' | 'scale' | 'pitch' | 'singing' | 'melody' | 'inversion' | 'harmony';
+
+export interface PracticeAttempt {
+  id?: number;            // auto-assigned by IndexedDB
+  trainer: TrainerMode;
+  timestamp: number;      // Date.now() when answered
+  question: string;       // display label, e.g. "C Major" or "D Dorian"
+  expected: string;       // correct answer item, e.g. "Minor 6th"
+  response: string;       // what the user answered
+  correct: boolean;
+  responseMs: number;     // time from question presented to answer
+  score?: number;         // 0~100 for graded trainers (pitch, rhythm, frequency)
+  settings: Record<string, unknown>;
+}
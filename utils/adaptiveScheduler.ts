@@ -0,0 +1,102 @@
+
+// ── Adaptive (Leitner-style) question scheduler ───────────────────────────
+//
+// Each item (an interval, chord quality, scale or progression id) sits in a box 1–5.
+// A correct answer promotes it one box, a wrong answer sends it back to box 1.
+// Lower boxes, higher recent error rates and items overdue for review are drawn more often.
+
+export type AdaptiveScope = 'interval' | 'chord' | 'scale' | 'progression';
+
+interface ItemState {
+  box: number;         // 1 (weak) ~ 5 (mastered)
+  lastSeen: number;    // Date.now() of last answer
+  history: boolean[];  // most recent outcomes, newest last
+}
+
+type Deck = Record<string, ItemState>;
+
+const STORAGE_KEY = 'earlessly-adaptive';
+export const MAX_BOX = 5;
+const HISTORY_LEN = 10;
+// Review interval per box in seconds (index = box); overdue items get boosted
+const BOX_INTERVAL_S = [0, 20, 90, 300, 1200, 3600];
+const BOX_WEIGHT = [0, 16, 8, 4, 2, 1];
+
+let cache: Partial<Record<AdaptiveScope, Deck>> | null = null;
+const lastPicked: Partial<Record<AdaptiveScope, string>> = {};
+const listeners = new Set<() => void>();
+
+const load = (): Partial<Record<AdaptiveScope, Deck>> => {
+  if (cache) return cache;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    cache = raw ? JSON.parse(raw) : {};
+  } catch {
+    cache = {};
+  }
+  return cache!;
+};
+
+const save = () => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(cache ?? {})); } catch { /* storage full or unavailable */ }
+  listeners.forEach(l => l());
+};
+
+const itemWeight = (state: ItemState | undefined, now: number): number => {
+  if (!state) return BOX_WEIGHT[1]; // never seen: treat as weak so it gets introduced early
+  const errors = state.history.filter(ok => !ok).length;
+  const errorRate = state.history.length > 0 ? errors / state.history.length : 0.5;
+  const elapsed = (now - state.lastSeen) / 1000;
+  const overdue = Math.max(0.2, Math.min(4, elapsed / BOX_INTERVAL_S[state.box]));
+  return BOX_WEIGHT[state.box] * (1 + 2 * errorRate) * overdue;
+};
+
+export const pickAdaptive = <T extends string>(scope: AdaptiveScope, items: T[], now: number = Date.now()): T => {
+  if (items.length <= 1) return items[0];
+  const deck = load()[scope] ?? {};
+  const weights = items.map(item => {
+    const w = itemWeight(deck[item], now);
+    // Avoid asking the same item twice in a row
+    return item === lastPicked[scope] ? w * 0.15 : w;
+  });
+  const sum = weights.reduce((a, b) => a + b, 0);
+  let r = Math.random() * sum;
+  let picked = items[items.length - 1];
+  for (let i = 0; i < items.length; i++) {
+    r -= weights[i];
+    if (r <= 0) { picked = items[i]; break; }
+  }
+  lastPicked[scope] = picked;
+  return picked;
+};
+
+export const recordAdaptiveResult = (scope: AdaptiveScope, item: string, correct: boolean) => {
+  const all = load();
+  const deck = all[scope] ?? (all[scope] = {});
+  const prev = deck[item] ?? { box: 1, lastSeen: 0, history: [] };
+  deck[item] = {
+    box: correct ? Math.min(MAX_BOX, prev.box + 1) : 1,
+    lastSeen: Date.now(),
+    history: [...prev.history, correct].slice(-HISTORY_LEN),
+  };
+  save();
+};
+
+// Box per item (1~5) among `items`, for showing mastery in the UI; unseen items are omitted
+export const getAdaptiveBoxes = (scope: AdaptiveScope, items: string[]): Record<string, number> => {
+  const deck = load()[scope] ?? {};
+  return Object.fromEntries(items.filter(item => deck[item]).map(item => [item, deck[item].box]));
+};
+
+// Fires after any answer is recorded or a scope is reset; returns an unsubscribe function
+export const subscribeAdaptive = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const resetAdaptive = (scope: AdaptiveScope) => {
+  const all = load();
+  delete all[scope];
+  delete lastPicked[scope];
+  save();
+};
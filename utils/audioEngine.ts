@@ -1,5 +1,9 @@
 
-import { NoteName, TunerData, BeatIntensity, ChordQuality, IntervalQuality, EarTrainingSettings, Question } from '../types';
+import { NoteName, TunerData, BeatIntensity, ChordQuality, IntervalQuality, INTERVAL_SEMITONES, EarTrainingSettings, Question, MelodyNote } from '../types';
+import { pickAdaptive } from './adaptiveScheduler';
+import { startVoice, Voice } from './instruments';
+import { VoicingSettings, getVoicingSettings, voiceChord, voiceProgression } from './voicing';
+import { chordIntervals, chordName } from './chords';
 
 // --- Shared Context ---
 let audioCtx: AudioContext | null = null;
@@ -11,6 +15,136 @@ export const getAudioContext = (): AudioContext => {
   return audioCtx;
 };
 
+// --- Mixer ---
+// Every module routes into a channel strip: channel gain -> master gain -> limiter -> destination.
+
+export type MixerChannel = 'metronome' | 'synth' | 'trainers' | 'drone';
+export const MIXER_CHANNELS: MixerChannel[] = ['metronome', 'synth', 'trainers', 'drone'];
+
+export interface ChannelState { gain: number; mute: boolean; solo: boolean; }
+
+interface MixerNodes {
+  master: GainNode;
+  limiter: DynamicsCompressorNode;
+  channels: Record<MixerChannel, GainNode>;
+}
+
+let mixer: MixerNodes | null = null;
+let masterVolume = 0.5;
+const channelStates: Record<MixerChannel, ChannelState> = {
+  metronome: { gain: 1, mute: false, solo: false },
+  synth: { gain: 1, mute: false, solo: false },
+  trainers: { gain: 1, mute: false, solo: false },
+  drone: { gain: 1, mute: false, solo: false },
+};
+const mixerListeners = new Set<() => void>();
+
+const getMixer = (): MixerNodes => {
+  if (mixer) return mixer;
+  const ctx = getAudioContext();
+  // Brick-wall-ish limiter so big chords and stacked modules don't clip
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -3;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.1;
+  limiter.connect(ctx.destination);
+  const master = ctx.createGain();
+  master.gain.value = masterVolume;
+  master.connect(limiter);
+  const channels = {} as Record<MixerChannel, GainNode>;
+  MIXER_CHANNELS.forEach(ch => {
+    channels[ch] = ctx.createGain();
+    channels[ch].connect(master);
+  });
+  mixer = { master, limiter, channels };
+  applyChannelGains();
+  return mixer;
+};
+
+const applyChannelGains = () => {
+  if (!mixer) return;
+  const ctx = getAudioContext();
+  const anySolo = MIXER_CHANNELS.some(ch => channelStates[ch].solo);
+  MIXER_CHANNELS.forEach(ch => {
+    const st = channelStates[ch];
+    const audible = anySolo ? st.solo : !st.mute;
+    mixer!.channels[ch].gain.setTargetAtTime(audible ? st.gain : 0, ctx.currentTime, 0.02);
+  });
+};
+
+const notifyMixer = () => mixerListeners.forEach(l => l());
+
+// Input node for a module's channel strip
+export const getChannel = (channel: MixerChannel): AudioNode => getMixer().channels[channel];
+
+export const setMasterVolume = (volume: number) => {
+  masterVolume = Math.max(0, Math.min(1, volume));
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  getMixer().master.gain.setTargetAtTime(Math.max(0.0001, masterVolume), ctx.currentTime, 0.02);
+};
+
+export const setChannelGain = (channel: MixerChannel, gain: number) => {
+  channelStates[channel].gain = Math.max(0, Math.min(1.5, gain));
+  applyChannelGains(); notifyMixer();
+};
+
+export const setChannelMute = (channel: MixerChannel, mute: boolean) => {
+  channelStates[channel].mute = mute;
+  applyChannelGains(); notifyMixer();
+};
+
+export const setChannelSolo = (channel: MixerChannel, solo: boolean) => {
+  channelStates[channel].solo = solo;
+  applyChannelGains(); notifyMixer();
+};
+
+export const getMixerState = (): Record<MixerChannel, ChannelState> =>
+  Object.fromEntries(MIXER_CHANNELS.map(ch => [ch, { ...channelStates[ch] }])) as Record<MixerChannel, ChannelState>;
+
+export const subscribeMixer = (listener: () => void): (() => void) => {
+  mixerListeners.add(listener);
+  return () => { mixerListeners.delete(listener); };
+};
+
+// --- Reference Pitch ---
+// A4 calibration shared by the tuner, every synthesized note and all pitch scoring.
+
+export const DEFAULT_A4 = 440;
+export const A4_PRESETS = [415, 440, 442];
+export const A4_MIN = 400;
+export const A4_MAX = 480;
+
+const A4_STORAGE_KEY = 'earlessly-a4';
+
+let referenceA4 = (() => {
+  try {
+    const stored = parseFloat(localStorage.getItem(A4_STORAGE_KEY) ?? '');
+    return Number.isFinite(stored) && stored >= A4_MIN && stored <= A4_MAX ? stored : DEFAULT_A4;
+  } catch { return DEFAULT_A4; }
+})();
+const referenceListeners = new Set<() => void>();
+
+export const getReferencePitch = (): number => referenceA4;
+
+export const setReferencePitch = (hz: number) => {
+  referenceA4 = Math.min(A4_MAX, Math.max(A4_MIN, Math.round(hz * 10) / 10));
+  try { localStorage.setItem(A4_STORAGE_KEY, String(referenceA4)); } catch { /* storage unavailable */ }
+  referenceListeners.forEach(l => l());
+};
+
+export const subscribeReferencePitch = (listener: () => void): (() => void) => {
+  referenceListeners.add(listener);
+  return () => { referenceListeners.delete(listener); };
+};
+
+export const midiToFrequency = (midi: number): number => referenceA4 * Math.pow(2, (midi - 69) / 12);
+
+// Fractional MIDI number, e.g. 69.3 = A4 + 30 cents
+export const frequencyToMidi = (frequency: number): number => 12 * Math.log2(frequency / referenceA4) + 69;
+
 // --- Tuner Logic ---
 
 export const NOTE_STRINGS = [
@@ -21,9 +155,9 @@ export const NOTE_STRINGS = [
 
 export const getNoteFromFrequency = (frequency: number): TunerData => {
   if (!Number.isFinite(frequency) || frequency <= 0) {
-    return { note: NoteName.A, octave: 4, cents: 0, frequency: 440, isSilent: true };
+    return { note: NoteName.A, octave: 4, cents: 0, frequency: referenceA4, isSilent: true };
   }
-  const noteNum = 12 * (Math.log(frequency / 440) / Math.log(2)) + 69;
+  const noteNum = frequencyToMidi(frequency);
   const midi = Math.round(noteNum);
   const cents = Math.floor((noteNum - midi) * 100);
   
@@ -101,14 +235,12 @@ export class MetronomeEngine {
   private grid: BeatIntensity[] = [];
   private onStep: (step: number) => void;
   public stepInterval: number = 0.5;
-  private masterGain: GainNode;
+  private output: AudioNode;
 
   constructor(onStepCallback: (step: number) => void) {
     this.ctx = getAudioContext();
     this.onStep = onStepCallback;
-    this.masterGain = this.ctx.createGain();
-    this.masterGain.gain.value = 0.5;
-    this.masterGain.connect(this.ctx.destination);
+    this.output = getChannel('metronome');
   }
 
   public setParams(bpm: number, grid: BeatIntensity[]) {
@@ -120,11 +252,6 @@ export class MetronomeEngine {
     this.stepInterval = Math.max(0.001, seconds); 
   }
   
-  public setVolume(volume: number) {
-    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
-    this.masterGain.gain.setTargetAtTime(Math.max(0.0001, volume), this.ctx.currentTime, 0.02);
-  }
-
   public start() {
     if (this.isPlaying) return;
     if (this.ctx.state === 'suspended') {
@@ -196,7 +323,7 @@ export class MetronomeEngine {
       const osc = this.ctx.createOscillator();
       const gain = this.ctx.createGain();
       osc.connect(gain);
-      gain.connect(this.masterGain);
+      gain.connect(this.output);
       osc.frequency.value = f;
       osc.type = f > 1000 ? 'triangle' : 'sine';
       
@@ -214,23 +341,17 @@ export class MetronomeEngine {
 
 export class PolySynth {
   private ctx: AudioContext;
-  private activeNotes: Map<number, { osc: OscillatorNode, gain: GainNode, isStopped: boolean }> = new Map();
-  private masterGain: GainNode;
+  private activeNotes: Map<number, Voice> = new Map();
+  private output: AudioNode;
   public decayMode: boolean = true;
 
   constructor() {
     this.ctx = getAudioContext();
-    this.masterGain = this.ctx.createGain();
-    this.masterGain.gain.value = 0.5;
-    this.masterGain.connect(this.ctx.destination);
+    this.output = getChannel('synth');
   }
 
-  public setVolume(volume: number) {
-    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
-    this.masterGain.gain.setTargetAtTime(Math.max(0.0001, volume), this.ctx.currentTime, 0.02);
-  }
-
-  public play(midi: number) {
+  // velocity: 0~1 (MIDI velocity / 127); defaults to full for mouse / computer keyboard
+  public play(midi: number, velocity: number = 1) {
     if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
     
     // Clean up if already exists
@@ -238,40 +359,20 @@ export class PolySynth {
        this.stop(midi, true);
     }
 
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-    const freq = 440 * Math.pow(2, (midi - 69) / 12);
-    
-    osc.frequency.value = freq;
-    osc.type = 'triangle';
-    osc.connect(gain);
-    gain.connect(this.masterGain);
-
-    const now = this.ctx.currentTime;
-    
     const pivot = 60;
     const sensitivity = 0.012;
     let noteGain = 0.3 * (1 - (midi - pivot) * sensitivity);
     noteGain = Math.max(0.1, Math.min(0.6, noteGain));
+    noteGain *= 0.15 + 0.85 * Math.max(0, Math.min(1, velocity));
 
-    // Attack
-    gain.gain.setValueAtTime(0.0001, now);
-    gain.gain.linearRampToValueAtTime(noteGain, now + 0.02);
-
-    if (this.decayMode) {
-      // Natural Piano-like Decay
-      gain.gain.setTargetAtTime(0.0001, now + 0.02, 0.8);
-    }
-
-    osc.start(now);
-    
-    const noteObj = { osc, gain, isStopped: false };
-    this.activeNotes.set(midi, noteObj);
+    // Natural piano-like decay unless decay mode is off
+    const voice = startVoice(this.ctx, this.output, midi, { gain: noteGain, sustain: !this.decayMode });
+    this.activeNotes.set(midi, voice);
 
     // Safety timeout to prevent memory leak if stop is never called
     if (this.decayMode) {
       setTimeout(() => {
-        if (this.activeNotes.get(midi) === noteObj) {
+        if (this.activeNotes.get(midi) === voice) {
            this.stop(midi, true);
         }
       }, 5000);
@@ -279,24 +380,9 @@ export class PolySynth {
   }
 
   public stop(midi: number, immediate: boolean = false) {
-    const active = this.activeNotes.get(midi);
-    if (!active || active.isStopped) return;
-
-    const { osc, gain } = active;
-    const now = this.ctx.currentTime;
-    active.isStopped = true;
-
-    try {
-      gain.gain.cancelScheduledValues(now);
-      // Fast fade out
-      gain.gain.setTargetAtTime(0.0001, now, immediate ? 0.01 : 0.05);
-      
-      const stopTime = immediate ? 0.05 : 0.3;
-      osc.stop(now + stopTime);
-    } catch (e) {
-      // Catch potential InvalidStateErrors
-    }
-
+    const voice = this.activeNotes.get(midi);
+    if (!voice) return;
+    voice.release(this.ctx.currentTime, immediate);
     this.activeNotes.delete(midi);
   }
   
@@ -306,34 +392,64 @@ export class PolySynth {
   }
 }
 
+// --- Playback Handles ---
+// Sequences render into their own bus so replay / leaving a trainer can cut them off cleanly.
+
+export interface PlaybackHandle {
+  stop: () => void;
+  ended: Promise<void>; // resolves when the sequence finishes or is stopped
+}
+
+export interface PlaybackOptions {
+  onProgress?: (step: number, total: number) => void; // fired as each note / chord / click sounds
+}
+
+const createPlayback = (ctx: AudioContext, stepTimes: number[], endTime: number, opts: PlaybackOptions = {}): { bus: GainNode; handle: PlaybackHandle } => {
+  const bus = ctx.createGain();
+  bus.connect(getChannel('trainers'));
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let finish: () => void = () => {};
+  const ended = new Promise<void>(resolve => { finish = resolve; });
+  let done = false;
+
+  const close = (fade: boolean) => {
+    if (done) return;
+    done = true;
+    timers.forEach(t => clearTimeout(t));
+    if (fade) bus.gain.setTargetAtTime(0, ctx.currentTime, 0.01);
+    // On natural end, leave room for release tails before detaching
+    setTimeout(() => bus.disconnect(), fade ? 150 : 2000);
+    finish();
+  };
+
+  if (opts.onProgress) {
+    stepTimes.forEach((t, i) => {
+      timers.push(setTimeout(() => opts.onProgress!(i, stepTimes.length), Math.max(0, (t - ctx.currentTime) * 1000)));
+    });
+  }
+  timers.push(setTimeout(() => close(false), Math.max(0, (endTime - ctx.currentTime) * 1000)));
+
+  return { bus, handle: { stop: () => close(true), ended } };
+};
+
 // --- Ear Training Logic ---
 
-export const playNotes = (midiNotes: number[], duration: number = 1.0, type: 'simultaneous' | 'arpeggio' = 'simultaneous') => {
+export const playNotes = (midiNotes: number[], duration: number = 1.0, type: 'simultaneous' | 'arpeggio' = 'simultaneous', opts: PlaybackOptions = {}): PlaybackHandle => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
 
   const now = ctx.currentTime;
   const arpGap = duration * 0.25;
+  const startTimes = midiNotes.map((_, index) => type === 'simultaneous' ? now : now + (index * arpGap));
+  const { bus, handle } = createPlayback(ctx, type === 'simultaneous' ? [now] : startTimes, Math.max(now, ...startTimes) + duration + 0.3, opts);
 
   midiNotes.forEach((note, index) => {
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = 'triangle';
-    const freq = 440 * Math.pow(2, (note - 69) / 12);
-    osc.frequency.value = freq;
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-    const startTime = type === 'simultaneous' ? now : now + (index * arpGap);
-    osc.start(startTime);
-    osc.stop(startTime + duration + 0.1);
-    
-    gain.gain.setValueAtTime(0.0001, startTime);
-    gain.gain.linearRampToValueAtTime(0.2, startTime + 0.05);
-    gain.gain.setTargetAtTime(0.0001, startTime + 0.05, duration * 0.3);
+    startVoice(ctx, bus, note, { time: startTimes[index], gain: 0.2, duration });
   });
+  return handle;
 };
 
-export const playScale = (rootMidi: number, intervals: number[], speed: number = 1.0, direction: 'up' | 'down' | 'updown' = 'up') => {
+export const playScale = (rootMidi: number, intervals: number[], speed: number = 1.0, direction: 'up' | 'down' | 'updown' = 'up', opts: PlaybackOptions = {}): PlaybackHandle => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
   const now = ctx.currentTime;
@@ -343,80 +459,89 @@ export const playScale = (rootMidi: number, intervals: number[], speed: number =
   if (direction === 'down') sequence = [...sequence].reverse();
   else if (direction === 'updown') sequence = [...sequence, ...[...sequence].reverse().slice(1)];
 
+  const startTimes = sequence.map((_, index) => now + index * gap);
+  const { bus, handle } = createPlayback(ctx, startTimes, now + sequence.length * gap + 0.3, opts);
   sequence.forEach((midi, index) => {
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = 'triangle';
-    osc.frequency.value = 440 * Math.pow(2, (midi - 69) / 12);
-    osc.connect(gain);
-    gain.connect(ctx.destination);
-    const t = now + index * gap;
-    osc.start(t);
-    osc.stop(t + gap + 0.05);
-    gain.gain.setValueAtTime(0.0001, t);
-    gain.gain.linearRampToValueAtTime(0.2, t + 0.03);
-    gain.gain.setTargetAtTime(0.0001, t + 0.03, gap * 0.4);
+    startVoice(ctx, bus, midi, { time: startTimes[index], gain: 0.2, duration: gap });
   });
+  return handle;
 };
 
-export const playChordProgression = (chords: number[][], rootMidi: number, bpm: number = 90) => {
+// Notes play back to back; a non-empty `cadence` chord (e.g. the tonic triad) sounds first to set the key.
+// Progress steps are the melody notes only.
+export const playMelody = (melody: MelodyNote[], bpm: number = 90, cadence: number[] = [], opts: PlaybackOptions = {}): PlaybackHandle => {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  const now = ctx.currentTime;
+  const beatDur = 60 / bpm;
+  const melodyStart = cadence.length > 0 ? now + 3 * beatDur : now;
+
+  const startTimes: number[] = [];
+  let t = melodyStart;
+  melody.forEach(n => { startTimes.push(t); t += n.beats * beatDur; });
+  const { bus, handle } = createPlayback(ctx, startTimes, t + 0.3, opts);
+  cadence.forEach(midi => startVoice(ctx, bus, midi, { time: now, gain: 0.15, duration: 2 * beatDur }));
+  melody.forEach((n, i) => {
+    startVoice(ctx, bus, n.midi, { time: startTimes[i], gain: 0.2, duration: n.beats * beatDur * 0.9 });
+  });
+  return handle;
+};
+
+// Chords are spelled as offsets from `rootMidi` (bass first) and voice-led before playing
+export const playChordProgression = (chords: number[][], rootMidi: number, bpm: number = 90, opts: PlaybackOptions = {}, voicing: VoicingSettings = getVoicingSettings()): PlaybackHandle => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
   const now = ctx.currentTime;
   const chordDur = 60 / bpm;
 
-  chords.forEach((chord, ci) => {
-    const t = now + ci * chordDur;
+  const startTimes = chords.map((_, ci) => now + ci * chordDur);
+  const { bus, handle } = createPlayback(ctx, startTimes, now + chords.length * chordDur + 0.4, opts);
+  voiceProgression(chords, voicing).forEach((chord, ci) => {
+    // Same overall level as the old three-note triads, whatever the voice count
+    const gain = 0.54 / chord.length;
     chord.forEach(semitone => {
-      const midi = rootMidi + semitone;
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-      osc.type = 'triangle';
-      osc.frequency.value = 440 * Math.pow(2, (midi - 69) / 12);
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      osc.start(t);
-      osc.stop(t + chordDur + 0.05);
-      gain.gain.setValueAtTime(0.0001, t);
-      gain.gain.linearRampToValueAtTime(0.18, t + 0.03);
-      gain.gain.setTargetAtTime(0.0001, t + 0.03, chordDur * 0.35);
+      startVoice(ctx, bus, rootMidi + semitone, { time: startTimes[ci], gain, duration: chordDur });
     });
   });
+  return handle;
 };
 
-export const playRhythmClick = (beats: number[], bpm: number, countIn: number = 4): Promise<void> => {
+// Progress steps are the count-in clicks followed by the pattern clicks
+export const playRhythmClick = (beats: number[], bpm: number, countIn: number = 4, opts: PlaybackOptions = {}): PlaybackHandle => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
   const now = ctx.currentTime;
   const beatDur = 60 / bpm;
   const barDur = 4 * beatDur;
+  const patternStart = now + countIn * beatDur;
+
+  const countInTimes = Array.from({ length: countIn }, (_, i) => now + i * beatDur);
+  const beatTimes = beats.map(pos => patternStart + pos * barDur);
+  const { bus, handle } = createPlayback(ctx, [...countInTimes, ...beatTimes], patternStart + barDur, opts);
 
   // Count-in clicks
-  for (let i = 0; i < countIn; i++) {
-    const t = now + i * beatDur;
+  countInTimes.forEach((t, i) => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'sine';
     osc.frequency.value = i === 0 ? 1500 : 800;
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(bus);
     gain.gain.setValueAtTime(0.0001, t);
     gain.gain.linearRampToValueAtTime(i === 0 ? 0.5 : 0.3, t + 0.005);
     gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.06);
     osc.start(t);
     osc.stop(t + 0.07);
-  }
+  });
 
-  const patternStart = now + countIn * beatDur;
   // Rhythm pattern clicks
-  beats.forEach(pos => {
-    const t = patternStart + pos * barDur;
+  beatTimes.forEach(t => {
     const osc = ctx.createOscillator();
     const gain = ctx.createGain();
     osc.type = 'triangle';
     osc.frequency.value = 1200;
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(bus);
     gain.gain.setValueAtTime(0.0001, t);
     gain.gain.linearRampToValueAtTime(0.4, t + 0.005);
     gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.08);
@@ -424,11 +549,10 @@ export const playRhythmClick = (beats: number[], bpm: number, countIn: number =
     osc.stop(t + 0.09);
   });
 
-  const totalDur = (countIn * beatDur + barDur) * 1000;
-  return new Promise(resolve => setTimeout(resolve, totalDur));
+  return handle;
 };
 
-export const playPitchTone = (freq: number, duration: number = 2.5, volume: number = 0.5): void => {
+export const playPitchTone = (freq: number, duration: number = 2.5): void => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
   const now = ctx.currentTime;
@@ -438,18 +562,18 @@ export const playPitchTone = (freq: number, duration: number = 2.5, volume: numb
   osc.type = 'triangle';
   osc.frequency.value = freq;
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getChannel('trainers'));
 
   gain.gain.setValueAtTime(0.0001, now);
-  gain.gain.linearRampToValueAtTime(volume * 0.4, now + 0.05);
-  gain.gain.setValueAtTime(volume * 0.4, now + duration - 0.15);
+  gain.gain.linearRampToValueAtTime(0.2, now + 0.05);
+  gain.gain.setValueAtTime(0.2, now + duration - 0.15);
   gain.gain.linearRampToValueAtTime(0.0001, now + duration);
 
   osc.start(now);
   osc.stop(now + duration + 0.05);
 };
 
-export const createPreviewOscillator = (volume: number = 0.5) => {
+export const createPreviewOscillator = () => {
   const ctx = getAudioContext();
   if (ctx.state === 'suspended') ctx.resume().catch(() => {});
 
@@ -458,9 +582,9 @@ export const createPreviewOscillator = (volume: number = 0.5) => {
   osc.type = 'sine';
   osc.frequency.value = 440;
   osc.connect(gain);
-  gain.connect(ctx.destination);
+  gain.connect(getChannel('trainers'));
   gain.gain.setValueAtTime(0.0001, ctx.currentTime);
-  gain.gain.linearRampToValueAtTime(volume * 0.3, ctx.currentTime + 0.03);
+  gain.gain.linearRampToValueAtTime(0.15, ctx.currentTime + 0.03);
   osc.start();
 
   return {
@@ -496,24 +620,11 @@ export const generateQuestion = (settings: EarTrainingSettings): Question => {
   if (settings.mode === 'interval') {
     const rootMidi = candidates[Math.floor(Math.random() * candidates.length)];
     const intervalList = settings.intervalQualities && settings.intervalQualities.length > 0 ? settings.intervalQualities : [IntervalQuality.P5];
-    const quality = intervalList[Math.floor(Math.random() * intervalList.length)];
-    
-    let semitones = 7;
-    switch (quality) {
-      case IntervalQuality.m2: semitones = 1; break;
-      case IntervalQuality.M2: semitones = 2; break;
-      case IntervalQuality.m3: semitones = 3; break;
-      case IntervalQuality.M3: semitones = 4; break;
-      case IntervalQuality.P4: semitones = 5; break;
-      case IntervalQuality.TT: semitones = 6; break;
-      case IntervalQuality.P5: semitones = 7; break;
-      case IntervalQuality.m6: semitones = 8; break;
-      case IntervalQuality.M6: semitones = 9; break;
-      case IntervalQuality.m7: semitones = 10; break;
-      case IntervalQuality.M7: semitones = 11; break;
-      case IntervalQuality.P8: semitones = 12; break;
-    }
+    const quality = settings.adaptive
+      ? pickAdaptive('interval', intervalList)
+      : intervalList[Math.floor(Math.random() * intervalList.length)];
     
+    const semitones = INTERVAL_SEMITONES[quality];
     const secondMidi = rootMidi + semitones;
     return {
       notes: [rootMidi, secondMidi],
@@ -545,23 +656,14 @@ export const generateQuestion = (settings: EarTrainingSettings): Question => {
   else {
     const rootMidi = candidates[Math.floor(Math.random() * candidates.length)];
     const chordList = settings.chordQualities && settings.chordQualities.length > 0 ? settings.chordQualities : [ChordQuality.MAJOR];
-    const quality = chordList[Math.floor(Math.random() * chordList.length)];
-    let intervals: number[] = [0, 4, 7];
-    switch (quality) {
-      case ChordQuality.MAJOR: intervals = [0, 4, 7]; break;
-      case ChordQuality.MINOR: intervals = [0, 3, 7]; break;
-      case ChordQuality.DIMINISHED: intervals = [0, 3, 6]; break;
-      case ChordQuality.AUGMENTED: intervals = [0, 4, 8]; break;
-      case ChordQuality.MAJOR_7: intervals = [0, 4, 7, 11]; break;
-      case ChordQuality.MINOR_7: intervals = [0, 3, 7, 10]; break;
-      case ChordQuality.DOMINANT_7: intervals = [0, 4, 7, 10]; break;
-      case ChordQuality.HALF_DIM: intervals = [0, 3, 6, 10]; break;
-      case ChordQuality.DIMINISHED_7: intervals = [0, 3, 6, 9]; break;
-    }
-    const notes = intervals.map(i => rootMidi + i);
+    const quality = settings.adaptive
+      ? pickAdaptive('chord', chordList)
+      : chordList[Math.floor(Math.random() * chordList.length)];
+    // Voiced around the root the same way playChordProgression voices a progression
+    const notes = voiceChord(chordIntervals(quality), getVoicingSettings()).map(n => rootMidi + n);
     return {
       notes,
-      answerLabel: `${NOTE_STRINGS[((rootMidi%12)+12)%12]} ${quality}`,
+      answerLabel: chordName(rootMidi, quality),
       answerNames: [quality]
     };
   }
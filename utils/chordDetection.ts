@@ -0,0 +1,104 @@
+
+import { ChordQuality } from '../types';
+import { frequencyToMidi } from './audioEngine';
+import { BASIC_QUALITIES, chordIntervals, chordName } from './chords';
+
+// ── Chord recognition from an FFT chromagram ──────────────────────────────
+
+export interface ChordMatch {
+  root: number;          // pitch class, C = 0
+  quality: ChordQuality;
+  label: string;         // e.g. "A Minor 7"
+  confidence: number;    // 0~1 template similarity
+  margin: number;        // similarity gap to the runner-up chord
+}
+
+const MIN_FREQ = 55;     // ignore rumble below A1
+const MAX_FREQ = 2000;   // upper partials mostly blur the chroma above this
+const FLOOR_DB = 50;     // peaks more than this far below the loudest one are ignored
+const EXTRA_TONE_PENALTY = 0.03;
+const BASS_ROOT_BONUS = 0.02; // breaks ties between roots of symmetric chords (aug, dim7)
+const BASS_WITHIN_DB = 20;
+
+// Folds spectral peaks of `getFloatFrequencyData` output (dB per bin) into 12 pitch classes.
+// Each peak's linear magnitude (square-rooted to tame loud low notes) goes to its nearest pitch class,
+// weighted down as it drifts from the semitone centre. The result is normalised to a max of 1.
+export const computeChroma = (spectrumDb: Float32Array, sampleRate: number): Float32Array => {
+  const chroma = new Float32Array(12);
+  const binHz = sampleRate / (spectrumDb.length * 2);
+  const lo = Math.max(1, Math.floor(MIN_FREQ / binHz));
+  const hi = Math.min(spectrumDb.length - 2, Math.ceil(MAX_FREQ / binHz));
+
+  let maxDb = -Infinity;
+  for (let k = lo; k <= hi; k++) if (spectrumDb[k] > maxDb) maxDb = spectrumDb[k];
+  if (!Number.isFinite(maxDb)) return chroma;
+
+  for (let k = lo; k <= hi; k++) {
+    const db = spectrumDb[k];
+    if (db < maxDb - FLOOR_DB || db <= spectrumDb[k - 1] || db < spectrumDb[k + 1]) continue;
+    // Parabolic interpolation of the peak position
+    const a = spectrumDb[k - 1], c = spectrumDb[k + 1];
+    const denom = a - 2 * db + c;
+    const shift = Math.abs(denom) > 1e-9 ? (a - c) / (2 * denom) : 0;
+    const midi = frequencyToMidi((k + shift) * binHz);
+    const nearest = Math.round(midi);
+    const weight = Math.max(0, 1 - Math.abs(midi - nearest) * 2); // 0 at a quarter tone away
+    chroma[((nearest % 12) + 12) % 12] += Math.sqrt(Math.pow(10, db / 20)) * weight;
+  }
+
+  const max = Math.max(...chroma);
+  if (max > 0) for (let i = 0; i < 12; i++) chroma[i] /= max;
+  return chroma;
+};
+
+// Pitch class of the lowest clear spectral peak, or null
+export const bassPitchClass = (spectrumDb: Float32Array, sampleRate: number): number | null => {
+  const binHz = sampleRate / (spectrumDb.length * 2);
+  const lo = Math.max(1, Math.floor(MIN_FREQ / binHz));
+  const hi = Math.min(spectrumDb.length - 2, Math.ceil(MAX_FREQ / binHz));
+  let maxDb = -Infinity;
+  for (let k = lo; k <= hi; k++) if (spectrumDb[k] > maxDb) maxDb = spectrumDb[k];
+  for (let k = lo; k <= hi; k++) {
+    const db = spectrumDb[k];
+    if (db >= maxDb - BASS_WITHIN_DB && db > spectrumDb[k - 1] && db >= spectrumDb[k + 1]) {
+      const midi = Math.round(frequencyToMidi(k * binHz));
+      return ((midi % 12) + 12) % 12;
+    }
+  }
+  return null;
+};
+
+// Cosine similarity between the chroma and each root × quality template, with a small penalty per
+// extra chord tone so overtones don't turn plain triads into seventh chords.
+// Returns null when nothing fits well enough to name.
+export const detectChord = (
+  chroma: Float32Array,
+  qualities: ChordQuality[] = BASIC_QUALITIES,
+  minConfidence: number = 0.6,
+  bass: number | null = null
+): ChordMatch | null => {
+  const norm = Math.sqrt(chroma.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return null;
+
+  const scored: { root: number; quality: ChordQuality; score: number }[] = [];
+  for (const quality of qualities) {
+    const intervals = chordIntervals(quality);
+    for (let root = 0; root < 12; root++) {
+      let dot = 0;
+      intervals.forEach(i => { dot += chroma[(root + i) % 12]; });
+      const penalty = Math.max(0, intervals.length - 3) * EXTRA_TONE_PENALTY;
+      const bonus = bass === root ? BASS_ROOT_BONUS : 0;
+      scored.push({ root, quality, score: dot / (norm * Math.sqrt(intervals.length)) - penalty + bonus });
+    }
+  }
+  scored.sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  if (!best || best.score < minConfidence) return null;
+  return {
+    root: best.root,
+    quality: best.quality,
+    label: chordName(best.root, best.quality),
+    confidence: Math.min(1, best.score),
+    margin: second ? best.score - second.score : best.score,
+  };
+};
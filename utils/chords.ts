@@ -0,0 +1,94 @@
+
+import { ChordQuality } from '../types';
+import { NOTE_STRINGS } from './audioEngine';
+
+// ── Chord dictionary ──────────────────────────────────────────────────────
+//
+// The one place chord qualities are spelled: ear training, the Keyboard chord quiz, chord
+// recognition and every chord name shown in the app read their intervals and symbols from here.
+
+export type ChordFamily = 'triad' | 'sixth' | 'seventh' | 'extended' | 'altered';
+
+export interface ChordDef {
+  intervals: number[];   // semitones above the root, ascending
+  symbol: string;        // lead-sheet suffix, e.g. "m7", "7♯9"
+  family: ChordFamily;
+}
+
+export const CHORD_DICTIONARY: Record<ChordQuality, ChordDef> = {
+  [ChordQuality.MAJOR]:          { intervals: [0, 4, 7], symbol: '', family: 'triad' },
+  [ChordQuality.MINOR]:          { intervals: [0, 3, 7], symbol: 'm', family: 'triad' },
+  [ChordQuality.DIMINISHED]:     { intervals: [0, 3, 6], symbol: 'dim', family: 'triad' },
+  [ChordQuality.AUGMENTED]:      { intervals: [0, 4, 8], symbol: 'aug', family: 'triad' },
+  [ChordQuality.SUS2]:           { intervals: [0, 2, 7], symbol: 'sus2', family: 'triad' },
+  [ChordQuality.SUS4]:           { intervals: [0, 5, 7], symbol: 'sus4', family: 'triad' },
+  [ChordQuality.MAJOR_6]:        { intervals: [0, 4, 7, 9], symbol: '6', family: 'sixth' },
+  [ChordQuality.MINOR_6]:        { intervals: [0, 3, 7, 9], symbol: 'm6', family: 'sixth' },
+  [ChordQuality.ADD_9]:          { intervals: [0, 4, 7, 14], symbol: 'add9', family: 'sixth' },
+  [ChordQuality.MAJOR_7]:        { intervals: [0, 4, 7, 11], symbol: 'maj7', family: 'seventh' },
+  [ChordQuality.MINOR_7]:        { intervals: [0, 3, 7, 10], symbol: 'm7', family: 'seventh' },
+  [ChordQuality.DOMINANT_7]:     { intervals: [0, 4, 7, 10], symbol: '7', family: 'seventh' },
+  [ChordQuality.HALF_DIM]:       { intervals: [0, 3, 6, 10], symbol: 'm7♭5', family: 'seventh' },
+  [ChordQuality.DIMINISHED_7]:   { intervals: [0, 3, 6, 9], symbol: 'dim7', family: 'seventh' },
+  [ChordQuality.MINOR_MAJOR_7]:  { intervals: [0, 3, 7, 11], symbol: 'm(maj7)', family: 'seventh' },
+  [ChordQuality.AUGMENTED_7]:    { intervals: [0, 4, 8, 10], symbol: 'aug7', family: 'seventh' },
+  [ChordQuality.DOMINANT_9]:     { intervals: [0, 4, 7, 10, 14], symbol: '9', family: 'extended' },
+  [ChordQuality.MAJOR_9]:        { intervals: [0, 4, 7, 11, 14], symbol: 'maj9', family: 'extended' },
+  [ChordQuality.MINOR_9]:        { intervals: [0, 3, 7, 10, 14], symbol: 'm9', family: 'extended' },
+  // The 3rd clashes with the 11th, so it is left out as players usually do
+  [ChordQuality.DOMINANT_11]:    { intervals: [0, 7, 10, 14, 17], symbol: '11', family: 'extended' },
+  // 11th omitted for the same reason
+  [ChordQuality.DOMINANT_13]:    { intervals: [0, 4, 7, 10, 14, 21], symbol: '13', family: 'extended' },
+  [ChordQuality.DOM_7_FLAT_9]:   { intervals: [0, 4, 7, 10, 13], symbol: '7♭9', family: 'altered' },
+  [ChordQuality.DOM_7_SHARP_9]:  { intervals: [0, 4, 7, 10, 15], symbol: '7♯9', family: 'altered' },
+  [ChordQuality.DOM_7_SHARP_11]: { intervals: [0, 4, 7, 10, 18], symbol: '7♯11', family: 'altered' },
+  // Root, 3rd, ♭7 with ♭9, ♯9 and ♭13 — the usual altered-scale voicing
+  [ChordQuality.DOM_7_ALT]:      { intervals: [0, 4, 10, 13, 15, 20], symbol: '7alt', family: 'altered' },
+};
+
+export const CHORD_FAMILIES: { id: ChordFamily; label: string }[] = [
+  { id: 'triad', label: '三和弦 / 掛留' },
+  { id: 'sixth', label: '六和弦 / 加音' },
+  { id: 'seventh', label: '七和弦' },
+  { id: 'extended', label: '延伸和弦' },
+  { id: 'altered', label: '變化屬和弦' },
+];
+
+// The original triad + seventh set; chord recognition sticks to these since larger chords
+// share most of their tones with them and would be named from overtones alone
+export const BASIC_QUALITIES: ChordQuality[] = [
+  ChordQuality.MAJOR, ChordQuality.MINOR, ChordQuality.DIMINISHED, ChordQuality.AUGMENTED,
+  ChordQuality.MAJOR_7, ChordQuality.MINOR_7, ChordQuality.DOMINANT_7, ChordQuality.HALF_DIM, ChordQuality.DIMINISHED_7,
+];
+
+export const chordIntervals = (quality: ChordQuality): number[] => CHORD_DICTIONARY[quality].intervals;
+
+export const qualitiesInFamily = (family: ChordFamily): ChordQuality[] =>
+  (Object.keys(CHORD_DICTIONARY) as ChordQuality[]).filter(q => CHORD_DICTIONARY[q].family === family);
+
+// "A Minor 7": the name used for answers and practice history
+export const chordName = (root: number, quality: ChordQuality): string =>
+  `${NOTE_STRINGS[((root % 12) + 12) % 12]} ${quality}`;
+
+// "Am7": lead-sheet symbol
+export const chordSymbol = (root: number, quality: ChordQuality): string =>
+  `${NOTE_STRINGS[((root % 12) + 12) % 12]}${CHORD_DICTIONARY[quality].symbol}`;
+
+// ── Inversions ────────────────────────────────────────────────────────────
+
+export const INVERSION_NAMES = ['原位', '第一轉位', '第二轉位', '第三轉位'];
+
+// Qualities whose inversions can be told apart by ear: symmetric chords (aug, dim7), sus chords
+// (sus2 inverts into sus4) and sixth chords (C6 = Am7) are left out, as are chords past the octave
+export const INVERTIBLE_QUALITIES: ChordQuality[] = [
+  ChordQuality.MAJOR, ChordQuality.MINOR, ChordQuality.DIMINISHED,
+  ChordQuality.MAJOR_7, ChordQuality.MINOR_7, ChordQuality.DOMINANT_7, ChordQuality.HALF_DIM, ChordQuality.MINOR_MAJOR_7,
+];
+
+// MIDI notes with chord tone `inversion` in the bass. Spread voicings drop the bass an octave and
+// lift every other upper voice an octave, so the bass stays the lowest note.
+export const invertChord = (rootMidi: number, quality: ChordQuality, inversion: number, spread: boolean = false): number[] => {
+  const tones = chordIntervals(quality).map(i => rootMidi + i);
+  const [bass, ...upper] = [...tones.slice(inversion), ...tones.slice(0, inversion).map(n => n + 12)];
+  return spread ? [bass - 12, ...upper.map((n, i) => (i % 2 === 0 ? n : n + 12)).sort((a, b) => a - b)] : [bass, ...upper];
+};
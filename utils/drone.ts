@@ -0,0 +1,124 @@
+
+import { getAudioContext, getChannel } from './audioEngine';
+import { InstrumentId, Voice, startVoice } from './instruments';
+import { TemperamentSetting, temperamentOffset } from './temperaments';
+import { createPersistedSettings } from './persistedSettings';
+
+// ── Drone ─────────────────────────────────────────────────────────────────
+//
+// A sustained root (plus optional fifth / upper octave) on its own mixer channel, for long-tone
+// intonation practice. Pitches follow the A4 reference and the drone's own temperament.
+
+export type DroneTimbre = Extract<InstrumentId, 'organ' | 'strings' | 'triangle'>;
+
+export interface DroneSettings {
+  root: number;       // pitch class 0~11 (C = 0)
+  octave: number;     // scientific octave of the root, 2~4
+  fifth: boolean;
+  upperOctave: boolean;
+  timbre: DroneTimbre;
+  temperament: TemperamentSetting;
+}
+
+export const DRONE_TIMBRES: { id: DroneTimbre; label: string }[] = [
+  { id: 'organ', label: '風琴' },
+  { id: 'strings', label: '弦樂' },
+  { id: 'triangle', label: '三角波' },
+];
+export const DRONE_OCTAVES = [2, 3, 4];
+
+const STORAGE_KEY = 'earlessly-drone';
+const DEFAULT_SETTINGS: DroneSettings = {
+  root: 9, octave: 3, fifth: true, upperOctave: false, timbre: 'organ', temperament: { id: 'equal', tonic: 9 },
+};
+const VOICE_GAIN = 0.15;
+
+const store = createPersistedSettings<DroneSettings>(STORAGE_KEY, DEFAULT_SETTINGS);
+let voices: Voice[] = [];
+
+// Fractional MIDI numbers of the sounding notes, root first; temperament offsets are folded in
+export const droneNotes = (s: DroneSettings = store.get()): number[] => {
+  const rootMidi = 12 * (s.octave + 1) + s.root;
+  const tempered = (midi: number) => midi + temperamentOffset(s.temperament, midi % 12) / 100;
+  const notes = [tempered(rootMidi)];
+  if (s.fifth) notes.push(tempered(rootMidi + 7));
+  if (s.upperOctave) notes.push(notes[0] + 12);
+  return notes;
+};
+
+const startVoices = () => {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+  voices = droneNotes().map(midi => startVoice(ctx, getChannel('drone'), midi, { gain: VOICE_GAIN, sustain: true, instrument: store.get().timbre }));
+};
+
+const releaseVoices = () => {
+  voices.forEach(v => v.release());
+  voices = [];
+};
+
+export const isDroneRunning = (): boolean => voices.length > 0;
+
+export const startDrone = () => {
+  if (isDroneRunning()) return;
+  startVoices();
+  store.notify();
+};
+
+export const stopDrone = () => {
+  releaseVoices();
+  store.notify();
+};
+
+export const getDroneSettings = (): DroneSettings => store.get();
+
+// A running drone is re-voiced; the old notes' release overlaps the new attack
+export const setDroneSettings = (patch: Partial<DroneSettings>) => {
+  store.set(patch);
+  if (isDroneRunning()) {
+    releaseVoices();
+    startVoices();
+  }
+};
+
+// Fires on settings changes and when the drone starts or stops
+export const subscribeDrone = store.subscribe;
+
+// ── Just-interval deviation ───────────────────────────────────────────────
+
+const JUST_INTERVALS: { ratio: [number, number]; label: string }[] = [
+  { ratio: [1, 1], label: '同度' },
+  { ratio: [16, 15], label: '小二度' },
+  { ratio: [9, 8], label: '大二度' },
+  { ratio: [6, 5], label: '小三度' },
+  { ratio: [5, 4], label: '大三度' },
+  { ratio: [4, 3], label: '純四度' },
+  { ratio: [45, 32], label: '增四度' },
+  { ratio: [3, 2], label: '純五度' },
+  { ratio: [8, 5], label: '小六度' },
+  { ratio: [5, 3], label: '大六度' },
+  { ratio: [9, 5], label: '小七度' },
+  { ratio: [15, 8], label: '大七度' },
+  { ratio: [2, 1], label: '八度' },
+];
+
+export interface JustDeviation {
+  label: string;   // interval name above the drone root
+  ratio: string;   // e.g. "5:4"
+  cents: number;   // deviation from the pure interval, unrounded
+}
+
+// Nearest 5-limit interval between `frequency` and the drone root (any octave), and how far off it is
+export const justDeviation = (frequency: number, rootFrequency: number): JustDeviation => {
+  const above = 1200 * Math.log2(frequency / rootFrequency);
+  const folded = above - 1200 * Math.floor(above / 1200);
+  let best = JUST_INTERVALS[0];
+  let bestCents = Infinity;
+  JUST_INTERVALS.forEach(iv => {
+    const diff = folded - 1200 * Math.log2(iv.ratio[0] / iv.ratio[1]);
+    if (Math.abs(diff) < Math.abs(bestCents)) { best = iv; bestCents = diff; }
+  });
+  // The octave above is the root again
+  const interval = best.ratio[0] === 2 ? JUST_INTERVALS[0] : best;
+  return { label: interval.label, ratio: `${interval.ratio[0]}:${interval.ratio[1]}`, cents: bestCents };
+};
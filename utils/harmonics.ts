@@ -0,0 +1,75 @@
+
+// ── Harmonic series analysis ──────────────────────────────────────────────
+
+export interface Harmonic {
+  n: number;                 // partial number, 1 = fundamental
+  expected: number;          // n × measured fundamental (Hz)
+  frequency: number | null;  // measured peak, null if nothing found near the expected spot
+  levelDb: number;           // peak level relative to the fundamental
+  cents: number;             // deviation from the ideal harmonic
+}
+
+export interface HarmonicAnalysis {
+  fundamental: number;       // refined f1 (Hz)
+  harmonics: Harmonic[];
+  inharmonicity: number;     // stiff-string coefficient B in f_n = n·f0·√(1 + B·n²)
+  inharmonic: boolean;       // some partial strays more than INHARMONIC_CENTS from its ideal spot
+}
+
+const SEARCH_CENTS = 50;      // how far from n·f1 to look for the partial
+const NOISE_DB = 60;          // partials this far below the fundamental are treated as absent
+export const INHARMONIC_CENTS = 15;
+
+// Highest bin within ±SEARCH_CENTS of `target`, refined with parabolic interpolation
+const findPeak = (spectrumDb: Float32Array, binHz: number, target: number): { frequency: number; db: number } | null => {
+  const ratio = Math.pow(2, SEARCH_CENTS / 1200);
+  const lo = Math.max(1, Math.floor(target / ratio / binHz));
+  const hi = Math.min(spectrumDb.length - 2, Math.ceil(target * ratio / binHz));
+  if (hi <= lo) return null;
+  let best = lo;
+  for (let k = lo + 1; k <= hi; k++) if (spectrumDb[k] > spectrumDb[best]) best = k;
+  const a = spectrumDb[best - 1], b = spectrumDb[best], c = spectrumDb[best + 1];
+  if (!Number.isFinite(b) || b < a || b < c) return null; // rising edge of a neighbour, not a peak
+  const denom = a - 2 * b + c;
+  const shift = Math.abs(denom) > 1e-9 ? (a - c) / (2 * denom) : 0;
+  return { frequency: (best + shift) * binHz, db: b - (a - c) * shift / 4 };
+};
+
+// Locates up to `count` partials of `f0` in `getFloatFrequencyData` output (dB per bin)
+export const analyzeHarmonics = (spectrumDb: Float32Array, sampleRate: number, f0: number, count: number = 12): HarmonicAnalysis | null => {
+  const binHz = sampleRate / (spectrumDb.length * 2);
+  const first = findPeak(spectrumDb, binHz, f0);
+  if (!first) return null;
+  const f1 = first.frequency;
+
+  const harmonics: Harmonic[] = [];
+  for (let n = 1; n <= count && n * f1 < sampleRate / 2; n++) {
+    const expected = n * f1;
+    const peak = n === 1 ? first : findPeak(spectrumDb, binHz, expected);
+    const hit = peak && peak.db > first.db - NOISE_DB ? peak : null;
+    harmonics.push({
+      n,
+      expected,
+      frequency: hit ? hit.frequency : null,
+      levelDb: hit ? hit.db - first.db : -NOISE_DB,
+      cents: hit ? 1200 * Math.log2(hit.frequency / expected) : 0,
+    });
+  }
+
+  // Least squares on (f_n / n·f1)² ≈ 1 + B(n² − 1)
+  let num = 0, den = 0;
+  harmonics.forEach(h => {
+    if (h.n < 2 || h.frequency === null) return;
+    const r = Math.pow(h.frequency / h.expected, 2) - 1;
+    const x = h.n * h.n - 1;
+    num += r * x;
+    den += x * x;
+  });
+
+  return {
+    fundamental: f1,
+    harmonics,
+    inharmonicity: den > 0 ? Math.max(0, num / den) : 0,
+    inharmonic: harmonics.some(h => h.frequency !== null && Math.abs(h.cents) > INHARMONIC_CENTS),
+  };
+};
@@ -0,0 +1,182 @@
+
+import { HarmonicFunction, HarmonyChord, HarmonyQuestion, KeyMode } from '../types';
+
+// ── Functional-harmony grammar ────────────────────────────────────────────
+
+interface ChordDef {
+  root: number;          // semitones above the tonic
+  intervals: number[];   // chord tones above the root
+  fn: HarmonicFunction;
+  next: string[];        // numerals this chord may move to
+}
+
+const MAJ = [0, 4, 7];
+const MIN = [0, 3, 7];
+const DIM = [0, 3, 6];
+const DOM7 = [0, 4, 7, 10];
+
+// Tonic → anything, predominant → predominant / dominant, dominant → tonic (or deceptive vi)
+const KEY_CHORDS: Record<KeyMode, Record<string, ChordDef>> = {
+  major: {
+    'I':    { root: 0, intervals: MAJ, fn: 'T', next: ['ii', 'iii', 'IV', 'V', 'V7', 'vi', 'vii°'] },
+    'ii':   { root: 2, intervals: MIN, fn: 'PD', next: ['V', 'V7', 'vii°'] },
+    'iii':  { root: 4, intervals: MIN, fn: 'T', next: ['IV', 'vi'] },
+    'IV':   { root: 5, intervals: MAJ, fn: 'PD', next: ['I', 'ii', 'V', 'V7', 'vii°'] },
+    'V':    { root: 7, intervals: MAJ, fn: 'D', next: ['I', 'vi'] },
+    'V7':   { root: 7, intervals: DOM7, fn: 'D', next: ['I', 'vi'] },
+    'vi':   { root: 9, intervals: MIN, fn: 'T', next: ['ii', 'IV', 'V', 'iii'] },
+    'vii°': { root: 11, intervals: DIM, fn: 'D', next: ['I'] },
+  },
+  minor: {
+    'i':    { root: 0, intervals: MIN, fn: 'T', next: ['ii°', 'III', 'iv', 'V', 'V7', 'VI', 'VII', 'vii°'] },
+    'ii°':  { root: 2, intervals: DIM, fn: 'PD', next: ['V', 'V7', 'vii°'] },
+    'III':  { root: 3, intervals: MAJ, fn: 'T', next: ['iv', 'VI'] },
+    'iv':   { root: 5, intervals: MIN, fn: 'PD', next: ['i', 'ii°', 'V', 'V7', 'vii°'] },
+    'V':    { root: 7, intervals: MAJ, fn: 'D', next: ['i', 'VI'] },
+    'V7':   { root: 7, intervals: DOM7, fn: 'D', next: ['i', 'VI'] },
+    'VI':   { root: 8, intervals: MAJ, fn: 'T', next: ['ii°', 'iv', 'V'] },
+    'VII':  { root: 10, intervals: MAJ, fn: 'D', next: ['III', 'i'] },
+    'vii°': { root: 11, intervals: DIM, fn: 'D', next: ['i'] },
+  },
+};
+
+// Chords that may be tonicized by their own V7
+const SECONDARY_TARGETS: Record<KeyMode, string[]> = {
+  major: ['ii', 'IV', 'V', 'vi'],
+  minor: ['III', 'iv', 'V', 'VI'],
+};
+
+const TONIC: Record<KeyMode, string> = { major: 'I', minor: 'i' };
+const DOMINANTS = ['V', 'V7'];
+
+export const HARMONY_LENGTHS = [4, 6, 8];
+
+export const KEY_MODES: { id: KeyMode; label: string }[] = [
+  { id: 'major', label: '大調' },
+  { id: 'minor', label: '小調' },
+];
+
+export const FUNCTION_LABELS: Record<HarmonicFunction, string> = { T: '主', PD: '下屬', D: '屬' };
+
+// Bass pitch class relative to the tonic, spelled as a major-scale degree
+export const BASS_DEGREE_LABELS = ['1', '♭2', '2', '♭3', '3', '4', '♯4', '5', '♭6', '6', '♭7', '7'];
+
+export interface HarmonySettings {
+  mode: KeyMode;
+  length: number;
+  inversions: boolean;
+  secondaryDominants: boolean;
+}
+
+export interface HarmonyAnswer {
+  numeral: string | null;
+  inversion: number | null;
+  bass: number | null;
+}
+
+export interface HarmonyGrade {
+  numeral: boolean;      // numeral (and inversion, when asked) right
+  bass: boolean | null;  // null when the bass line was not asked
+}
+
+const pick = <T,>(xs: T[]): T => xs[Math.floor(Math.random() * xs.length)];
+
+const secondaryOf = (target: string) => `V7/${target}`;
+
+const chordDef = (mode: KeyMode, numeral: string): ChordDef => {
+  const [head, target] = numeral.split('/');
+  if (!target) return KEY_CHORDS[mode][head];
+  const t = KEY_CHORDS[mode][target];
+  return { root: (t.root + 7) % 12, intervals: DOM7, fn: 'D', next: [target] };
+};
+
+export const isSeventh = (numeral: string) => numeral.split('/')[0].endsWith('7');
+
+// Answer buttons for the key: diatonic numerals, then secondary dominants when enabled
+export const harmonyVocabulary = (mode: KeyMode, secondaryDominants: boolean): string[] => [
+  ...Object.keys(KEY_CHORDS[mode]),
+  ...(secondaryDominants ? SECONDARY_TARGETS[mode].map(secondaryOf) : []),
+];
+
+// Figured-bass label, e.g. I6, V65, V43/V
+export const chordLabel = (numeral: string, inversion: number): string => {
+  const [head, target] = numeral.split('/');
+  const base = isSeventh(numeral) ? head.slice(0, -1) : head;
+  const figures = isSeventh(numeral) ? ['7', '65', '43', '42'] : ['', '6', '64'];
+  return `${base}${figures[inversion] ?? ''}${target ? `/${target}` : ''}`;
+};
+
+// Numeral sequence: starts on the tonic, walks the grammar, ends with an authentic cadence V(7) – I
+const buildNumerals = (s: HarmonySettings): string[] => {
+  const table = KEY_CHORDS[s.mode];
+  const tonic = TONIC[s.mode];
+  const leadsToDominant = (n: string) => table[n].next.some(x => DOMINANTS.includes(x));
+  const canTonicize = (n: string) => s.secondaryDominants && SECONDARY_TARGETS[s.mode].includes(n);
+
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const out = [tonic];
+    let cur = tonic;
+    while (out.length < s.length - 1) {
+      const left = s.length - 1 - out.length;
+      let options = table[cur].next.filter(n => n !== cur);
+      if (left === 1) options = options.filter(n => DOMINANTS.includes(n));
+      else if (left === 2) options = options.filter(n => leadsToDominant(n) || (DOMINANTS.includes(n) && canTonicize(n)));
+      if (options.length === 0) break;
+
+      const target = pick(options);
+      const room = left - 2;   // slots left if a secondary dominant is inserted as well
+      const fits = room === 0 ? DOMINANTS.includes(target) : room === 1 ? leadsToDominant(target) : room > 1;
+      // A cadential V picked two slots early must be approached from V7/V
+      if (canTonicize(target) && fits && (room === 0 || Math.random() < 0.35)) {
+        out.push(secondaryOf(target));
+      }
+      out.push(target);
+      cur = target;
+    }
+    if (out.length === s.length - 1) return [...out, tonic];
+  }
+  return [tonic, ...Array(Math.max(0, s.length - 3)).fill(s.mode === 'major' ? 'IV' : 'iv'), 'V', tonic];
+};
+
+// Inversion weights; the opening tonic and the cadence stay in root position
+const pickInversion = (seventh: boolean): number => {
+  const r = Math.random();
+  if (seventh) return r < 0.4 ? 0 : r < 0.65 ? 1 : r < 0.85 ? 2 : 3;
+  return r < 0.5 ? 0 : r < 0.85 ? 1 : 2;
+};
+
+// Close position above the bass, with the bass kept within a fifth of the tonic
+const voiceChord = (def: ChordDef, inversion: number): number[] => {
+  const tones = def.intervals.map(i => def.root + i);
+  const rotated = [...tones.slice(inversion), ...tones.slice(0, inversion).map(t => t + 12)];
+  const bassPc = rotated[0] % 12;
+  const shift = (bassPc > 7 ? bassPc - 12 : bassPc) - rotated[0];
+  return rotated.map(t => t + shift);
+};
+
+export const generateHarmony = (s: HarmonySettings): HarmonyQuestion => {
+  const numerals = buildNumerals(s);
+  const chords = numerals.map((numeral, i): HarmonyChord => {
+    const def = chordDef(s.mode, numeral);
+    const fixed = i === 0 || i >= numerals.length - 2;
+    const inversion = s.inversions && !fixed ? pickInversion(def.intervals.length === 4) : 0;
+    const degrees = voiceChord(def, inversion);
+    return { numeral, inversion, fn: def.fn, degrees, bass: ((degrees[0] % 12) + 12) % 12 };
+  });
+  return { tonic: 48 + Math.floor(Math.random() * 12), mode: s.mode, chords };
+};
+
+export const emptyHarmonyAnswer = (): HarmonyAnswer => ({ numeral: null, inversion: null, bass: null });
+
+// An answer slot is complete once every part the settings ask for is filled in
+export const isAnswerComplete = (a: HarmonyAnswer, inversions: boolean, bassLine: boolean): boolean =>
+  a.numeral !== null && (!inversions || a.inversion !== null) && (!bassLine || a.bass !== null);
+
+export const gradeHarmony = (q: HarmonyQuestion, answers: HarmonyAnswer[], inversions: boolean, bassLine: boolean): HarmonyGrade[] =>
+  q.chords.map((c, i) => {
+    const a = answers[i] ?? emptyHarmonyAnswer();
+    return {
+      numeral: a.numeral === c.numeral && (!inversions || a.inversion === c.inversion),
+      bass: bassLine ? a.bass === c.bass : null,
+    };
+  });
@@ -0,0 +1,373 @@
+
+import { getAudioContext, midiToFrequency } from './audioEngine';
+
+// ── Instrument layer ──────────────────────────────────────────────────────
+//
+// Every playback path (PolySynth, playNotes, playScale, playChordProgression, ...) goes through
+// startVoice(), which renders one note with the globally selected instrument.
+
+export type InstrumentId = 'triangle' | 'piano' | 'epiano' | 'organ' | 'strings' | 'sampler';
+
+interface Patch {
+  label: string;
+  attack: number;                       // seconds to peak
+  decay: (midi: number) => number | null; // natural decay time constant; null = sustains until released
+  release: number;                      // release time constant
+  // Builds the sound sources into `out` and returns them so the voice can stop them
+  build: (ctx: AudioContext, midi: number, freq: number, out: GainNode, t: number) => AudioScheduledSourceNode[];
+}
+
+export interface Voice {
+  // Starts the release at `when` (defaults to now); fast = short release for retriggers / stopAll
+  release: (when?: number, fast?: boolean) => void;
+}
+
+export interface VoiceOptions {
+  time?: number;      // AudioContext time to start (default: now)
+  gain?: number;      // peak gain (velocity already applied)
+  duration?: number;  // auto-release after this many seconds; omit to hold until release()
+  sustain?: boolean;  // hold at peak instead of decaying naturally (organ/strings always sustain)
+  instrument?: InstrumentId;
+}
+
+// ── Patches ───────────────────────────────────────────────────────────────
+
+const osc = (ctx: AudioContext, type: OscillatorType, freq: number, out: AudioNode, gain: number = 1): OscillatorNode => {
+  const o = ctx.createOscillator();
+  o.type = type;
+  o.frequency.value = freq;
+  if (gain === 1) o.connect(out);
+  else {
+    const g = ctx.createGain();
+    g.gain.value = gain;
+    o.connect(g);
+    g.connect(out);
+  }
+  return o;
+};
+
+// Low notes ring longer than high ones
+const pianoDecay = (midi: number) => Math.max(0.35, 1.6 - (midi - 48) * 0.025);
+
+const PATCHES: Record<Exclude<InstrumentId, 'sampler'>, Patch> = {
+  triangle: {
+    label: '三角波',
+    attack: 0.02,
+    decay: () => 0.8,
+    release: 0.05,
+    build: (ctx, _midi, freq, out) => [osc(ctx, 'triangle', freq, out)],
+  },
+  piano: {
+    // Additive: slightly stretched partials, upper partials die away faster
+    label: '鋼琴',
+    attack: 0.005,
+    decay: pianoDecay,
+    release: 0.08,
+    build: (ctx, midi, freq, out, t) => {
+      const B = 0.0004; // inharmonicity coefficient
+      const sources: OscillatorNode[] = [];
+      for (let n = 1; n <= 8; n++) {
+        const f = freq * n * Math.sqrt(1 + B * n * n);
+        if (f > ctx.sampleRate / 2) break;
+        const g = ctx.createGain();
+        const amp = 0.6 / Math.pow(n, 1.4);
+        g.gain.setValueAtTime(amp, t);
+        g.gain.setTargetAtTime(0.0001, t, pianoDecay(midi) / n);
+        const o = osc(ctx, 'sine', f, g);
+        g.connect(out);
+        sources.push(o);
+      }
+      return sources;
+    },
+  },
+  epiano: {
+    // Two-operator FM; the modulation index decays to give the bell-like attack
+    label: '電鋼琴',
+    attack: 0.004,
+    decay: midi => pianoDecay(midi) * 1.3,
+    release: 0.1,
+    build: (ctx, _midi, freq, out, t) => {
+      const carrier = osc(ctx, 'sine', freq, out, 0.8);
+      const mod = ctx.createOscillator();
+      mod.frequency.value = freq;
+      const index = ctx.createGain();
+      index.gain.setValueAtTime(freq * 2.2, t);
+      index.gain.setTargetAtTime(freq * 0.3, t, 0.25);
+      mod.connect(index);
+      index.connect(carrier.frequency);
+      // The tine partial would alias past Nyquist on the top notes; they go without it
+      if (freq * 14 >= ctx.sampleRate / 2) return [carrier, mod];
+      const tine = ctx.createOscillator();
+      tine.frequency.value = freq * 14;
+      const tineIndex = ctx.createGain();
+      tineIndex.gain.setValueAtTime(freq * 0.6, t);
+      tineIndex.gain.setTargetAtTime(0, t, 0.04);
+      tine.connect(tineIndex);
+      tineIndex.connect(carrier.frequency);
+      return [carrier, mod, tine];
+    },
+  },
+  organ: {
+    // Drawbar registration 16' 8' 5⅓' 4' 2⅔' 2'
+    label: '風琴',
+    attack: 0.01,
+    decay: () => null,
+    release: 0.03,
+    build: (ctx, _midi, freq, out) =>
+      ([[0.5, 0.35], [1, 0.5], [1.5, 0.25], [2, 0.3], [3, 0.15], [4, 0.12]] as const)
+        .filter(([ratio]) => freq * ratio < ctx.sampleRate / 2)
+        .map(([ratio, amp]) => osc(ctx, 'sine', freq * ratio, out, amp)),
+  },
+  strings: {
+    // Detuned saws through a low-pass
+    label: '弦樂',
+    attack: 0.18,
+    decay: () => null,
+    release: 0.25,
+    build: (ctx, _midi, freq, out) => {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = Math.min(ctx.sampleRate / 2 - 100, freq * 6);
+      filter.Q.value = 0.5;
+      filter.connect(out);
+      return [-7, 0, 6].map(detune => {
+        const o = osc(ctx, 'sawtooth', freq, filter, 0.22);
+        o.detune.value = detune;
+        return o;
+      });
+    },
+  },
+};
+
+// ── Sampler (SFZ-style, loaded from local files) ──────────────────────────
+//
+// .sf2 SoundFonts are not read; samples come from an .sfz file or from note names in the file names.
+
+interface SampleZone { rootMidi: number; buffer: AudioBuffer; }
+
+let samplerZones: SampleZone[] = [];
+let samplerName: string | null = null;
+
+const NOTE_NAME_RE = /(^|[^A-Za-z])([A-Ga-g])([#b]?)(-?\d)(?![A-Za-z0-9])/;
+const PITCH_CLASS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// "C4", "F#3", "Bb2" or a bare MIDI number → MIDI number
+export const parseNoteName = (text: string): number | null => {
+  const num = text.match(/^\s*(\d{1,3})\s*$/);
+  if (num) return Math.min(127, parseInt(num[1]));
+  const m = text.match(NOTE_NAME_RE);
+  if (!m) return null;
+  const acc = m[3] === '#' ? 1 : m[3] === 'b' ? -1 : 0;
+  return (parseInt(m[4]) + 1) * 12 + PITCH_CLASS[m[2].toUpperCase()] + acc;
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+
+// Minimal SFZ: <region> blocks with sample= and pitch_keycenter= (or key=)
+export const parseSfz = (text: string): { sample: string; rootMidi: number }[] => {
+  const regions: { sample: string; rootMidi: number }[] = [];
+  const cleaned = text.replace(/\/\/.*$/gm, '');
+  for (const block of cleaned.split(/<region>/).slice(1)) {
+    const body = block.split(/<(?:group|global|control|master)>/)[0];
+    const sample = body.match(/sample=(.+?)(?=\s+\w+=|$)/m)?.[1]?.trim();
+    const key = body.match(/(?:pitch_keycenter|key)=(\S+)/)?.[1];
+    const rootMidi = key !== undefined ? parseNoteName(key) : null;
+    if (sample && rootMidi !== null) regions.push({ sample, rootMidi });
+  }
+  return regions;
+};
+
+// Maps uploaded files to root notes: via an .sfz file if present, otherwise from each file name ("Piano_C4.wav")
+const mapFilesToRoots = async (files: { name: string; data: ArrayBuffer }[]): Promise<{ rootMidi: number; data: ArrayBuffer; name: string }[]> => {
+  const sfz = files.find(f => f.name.toLowerCase().endsWith('.sfz'));
+  const audio = files.filter(f => f !== sfz);
+  if (sfz) {
+    const regions = parseSfz(new TextDecoder().decode(sfz.data));
+    return regions.flatMap(r => {
+      const file = audio.find(f => baseName(f.name) === baseName(r.sample));
+      return file ? [{ rootMidi: r.rootMidi, data: file.data, name: file.name }] : [];
+    });
+  }
+  return audio.flatMap(f => {
+    const rootMidi = parseNoteName(f.name.replace(/\.[^.]+$/, ''));
+    return rootMidi !== null ? [{ rootMidi, data: f.data, name: f.name }] : [];
+  });
+};
+
+const DB_NAME = 'earlessly-sampler';
+const DB_STORE = 'samples';
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+const decodeZones = async (entries: { rootMidi: number; data: ArrayBuffer }[]): Promise<SampleZone[]> => {
+  const ctx = getAudioContext();
+  const zones = await Promise.all(entries.map(async e => {
+    try { return { rootMidi: e.rootMidi, buffer: await ctx.decodeAudioData(e.data.slice(0)) }; }
+    catch { return null; }
+  }));
+  return zones.filter((z): z is SampleZone => z !== null).sort((a, b) => a.rootMidi - b.rootMidi);
+};
+
+// Loads user-selected files into the sampler and persists them. Returns how many zones were mapped.
+export async function loadSamplerFiles(fileList: FileList | File[], name: string): Promise<number> {
+  const files = await Promise.all(Array.from(fileList).map(async f => ({ name: f.name, data: await f.arrayBuffer() })));
+  const entries = await mapFilesToRoots(files);
+  const zones = await decodeZones(entries);
+  if (zones.length === 0) return 0;
+  samplerZones = zones;
+  samplerName = name;
+  try {
+    const db = await openDB();
+    const tx = db.transaction(DB_STORE, 'readwrite');
+    tx.objectStore(DB_STORE).put({ name, entries: entries.map(({ rootMidi, data }) => ({ rootMidi, data })) }, 'custom');
+    db.close();
+  } catch (e) {
+    console.error('saveSampler error:', e);
+  }
+  notify();
+  return zones.length;
+}
+
+let restorePromise: Promise<void> | null = null;
+
+// Restores the persisted sample set (once per session)
+export const restoreSampler = (): Promise<void> => {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      try {
+        const db = await openDB();
+        const data = await new Promise<{ name: string; entries: { rootMidi: number; data: ArrayBuffer }[] } | null>(resolve => {
+          const tx = db.transaction(DB_STORE, 'readonly');
+          const req = tx.objectStore(DB_STORE).get('custom');
+          req.onsuccess = () => resolve(req.result ?? null);
+          req.onerror = () => resolve(null);
+          db.close();
+        });
+        if (!data || samplerZones.length > 0) return;
+        samplerZones = await decodeZones(data.entries);
+        samplerName = samplerZones.length > 0 ? data.name : null;
+        notify();
+      } catch { /* ignore unavailable storage */ }
+    })();
+  }
+  return restorePromise;
+};
+
+export async function clearSampler() {
+  samplerZones = [];
+  samplerName = null;
+  try {
+    const db = await openDB();
+    const tx = db.transaction(DB_STORE, 'readwrite');
+    tx.objectStore(DB_STORE).delete('custom');
+    db.close();
+  } catch { /* nothing persisted */ }
+  notify();
+}
+
+export const getSamplerInfo = () => ({ name: samplerName, zones: samplerZones.length });
+
+const SAMPLER_PATCH: Patch = {
+  label: '取樣音色',
+  attack: 0.003,
+  decay: () => null, // the recording carries its own decay
+  release: 0.12,
+  build: (ctx, midi, freq, out) => {
+    // Nearest zone, repitched by playbackRate
+    const zone = samplerZones.reduce((best, z) => Math.abs(z.rootMidi - midi) < Math.abs(best.rootMidi - midi) ? z : best);
+    const src = ctx.createBufferSource();
+    src.buffer = zone.buffer;
+    // Samples are assumed to be recorded at A440; follow the reference pitch from there
+    src.playbackRate.value = freq / (440 * Math.pow(2, (zone.rootMidi - 69) / 12));
+    src.connect(out);
+    return [src];
+  },
+};
+
+// ── Global selection ──────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'earlessly-instrument';
+
+export const INSTRUMENTS: { id: InstrumentId; label: string }[] = [
+  ...(Object.keys(PATCHES) as Exclude<InstrumentId, 'sampler'>[]).map(id => ({ id, label: PATCHES[id].label })),
+  { id: 'sampler', label: SAMPLER_PATCH.label },
+];
+
+let current: InstrumentId = (() => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as InstrumentId | null;
+    return stored && INSTRUMENTS.some(i => i.id === stored) ? stored : 'piano';
+  } catch { return 'piano'; }
+})();
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(l => l());
+
+export const getInstrument = (): InstrumentId => current;
+
+export const setInstrument = (id: InstrumentId) => {
+  current = id;
+  try { localStorage.setItem(STORAGE_KEY, id); } catch { /* storage unavailable */ }
+  if (id === 'sampler') restoreSampler();
+  notify();
+};
+
+// Called whenever the selection or the loaded sample set changes; returns an unsubscribe function
+export const subscribeInstrument = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+if (current === 'sampler') restoreSampler();
+
+// The sampler falls back to the piano patch until samples are loaded
+const resolvePatch = (id: InstrumentId): Patch =>
+  id === 'sampler' ? (samplerZones.length > 0 ? SAMPLER_PATCH : PATCHES.piano) : PATCHES[id];
+
+// ── Voice ─────────────────────────────────────────────────────────────────
+
+export const startVoice = (ctx: AudioContext, destination: AudioNode, midi: number, opts: VoiceOptions = {}): Voice => {
+  const patch = resolvePatch(opts.instrument ?? current);
+  const t = opts.time ?? ctx.currentTime;
+  const peak = opts.gain ?? 0.3;
+  const freq = midiToFrequency(midi);
+
+  const env = ctx.createGain();
+  env.connect(destination);
+  const sources = patch.build(ctx, midi, freq, env, t);
+
+  env.gain.setValueAtTime(0.0001, t);
+  env.gain.linearRampToValueAtTime(peak, t + patch.attack);
+  const naturalDecay = patch.decay(midi);
+  if (naturalDecay !== null && !opts.sustain) {
+    // Short notes decay within their own length, like the original per-function envelopes
+    const tau = opts.duration !== undefined ? Math.min(naturalDecay, opts.duration * 0.4) : naturalDecay;
+    env.gain.setTargetAtTime(0.0001, t + patch.attack, tau);
+  }
+  sources.forEach(s => s.start(t));
+
+  let released = false;
+  const release = (when: number = ctx.currentTime, fast: boolean = false) => {
+    if (released) return;
+    released = true;
+    const tau = fast ? 0.01 : patch.release;
+    const at = Math.max(when, t);
+    try {
+      env.gain.cancelScheduledValues(at);
+      env.gain.setTargetAtTime(0.0001, at, tau);
+      sources.forEach(s => s.stop(at + tau * 6 + 0.02));
+    } catch (e) {
+      // Catch potential InvalidStateErrors
+    }
+  };
+
+  if (opts.duration !== undefined) release(t + opts.duration);
+  return { release };
+};
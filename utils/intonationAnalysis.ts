@@ -0,0 +1,205 @@
+
+import { NOTE_STRINGS, frequencyToMidi } from './audioEngine';
+import { TemperamentSetting, temperamentOffset } from './temperaments';
+
+// ── Intonation analysis for recorded takes ────────────────────────────────
+
+export interface PitchSample {
+  time: number;      // seconds since the take started
+  frequency: number; // Hz, <= 0 when unvoiced
+  rms?: number;
+}
+
+export interface NoteSegment {
+  start: number;     // seconds
+  end: number;
+  midi: number;      // target note
+  cents: number[];   // per-sample deviation from the target
+  times: number[];
+}
+
+export interface SegmentOptions {
+  minDuration?: number; // seconds; shorter blips are dropped
+  maxGap?: number;      // seconds of silence allowed inside a note
+  jumpCents?: number;   // a move this far from the running note starts a new one
+}
+
+export interface Vibrato {
+  rateHz: number;
+  depthCents: number; // half of peak-to-peak
+}
+
+export interface NoteAnalysis {
+  label: string;       // e.g. "A4"
+  start: number;
+  duration: number;
+  meanCents: number;
+  vibrato: Vibrato | null;
+}
+
+export interface NoteNameStats {
+  name: string;        // pitch class, e.g. "F#"
+  count: number;
+  meanCents: number;
+  stdCents: number;
+}
+
+export interface IntonationReport {
+  duration: number;
+  notes: NoteAnalysis[];
+  byNoteName: NoteNameStats[];
+  drift: { centsPerMinute: number; points: { time: number; cents: number }[] };
+  vibrato: Vibrato | null; // average over notes that have vibrato
+  worst: NoteNameStats[];  // largest average deviation first
+}
+
+const EQUAL: TemperamentSetting = { id: 'equal', tonic: 0 };
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / (xs.length || 1);
+const std = (xs: number[]) => {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map(x => (x - m) ** 2)));
+};
+const median = (xs: number[]) => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Least-squares line through (x, y); returns slope and intercept
+const linearFit = (xs: number[], ys: number[]) => {
+  const mx = mean(xs), my = mean(ys);
+  let num = 0, den = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    den += (xs[i] - mx) ** 2;
+  }
+  const slope = den > 0 ? num / den : 0;
+  return { slope, intercept: my - slope * mx };
+};
+
+const midiLabel = (midi: number) => `${NOTE_STRINGS[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+// Splits a pitch track into notes: a note continues while the pitch stays within `jumpCents`
+// of its running median and gaps stay under `maxGap`
+export const segmentNotes = (
+  samples: PitchSample[],
+  { minDuration = 0.12, maxGap = 0.08, jumpCents = 60 }: SegmentOptions = {},
+  temperament: TemperamentSetting = EQUAL
+): NoteSegment[] => {
+  const segments: NoteSegment[] = [];
+  let pitches: number[] = [];   // fractional MIDI
+  let times: number[] = [];
+
+  const flush = () => {
+    if (times.length >= 2 && times[times.length - 1] - times[0] >= minDuration) {
+      const center = median(pitches);
+      // Nearest note of the temperament to the note's median pitch
+      let midi = Math.round(center);
+      let best = Infinity;
+      for (let m = Math.round(center) - 1; m <= Math.round(center) + 1; m++) {
+        const d = Math.abs(center - (m + temperamentOffset(temperament, ((m % 12) + 12) % 12) / 100));
+        if (d < best) { best = d; midi = m; }
+      }
+      const target = midi + temperamentOffset(temperament, ((midi % 12) + 12) % 12) / 100;
+      segments.push({ start: times[0], end: times[times.length - 1], midi, cents: pitches.map(p => (p - target) * 100), times });
+    }
+    pitches = [];
+    times = [];
+  };
+
+  for (const s of samples) {
+    if (!(s.frequency > 0) || !Number.isFinite(s.frequency)) {
+      if (times.length > 0 && s.time - times[times.length - 1] > maxGap) flush();
+      continue;
+    }
+    const p = frequencyToMidi(s.frequency);
+    if (times.length > 0) {
+      const gap = s.time - times[times.length - 1];
+      const running = median(pitches.slice(-8));
+      if (gap > maxGap || Math.abs(p - running) * 100 > jumpCents) flush();
+    }
+    pitches.push(p);
+    times.push(s.time);
+  }
+  flush();
+  return segments;
+};
+
+// Rate from zero crossings of the detrended pitch, depth from its RMS (sine: peak = √2·RMS)
+export const detectVibrato = (segment: NoteSegment): Vibrato | null => {
+  const duration = segment.end - segment.start;
+  if (duration < 0.4 || segment.cents.length < 8) return null;
+  const { slope, intercept } = linearFit(segment.times, segment.cents);
+  const residual = segment.cents.map((c, i) => c - (slope * segment.times[i] + intercept));
+  let crossings = 0;
+  for (let i = 1; i < residual.length; i++) if ((residual[i - 1] < 0) !== (residual[i] < 0)) crossings++;
+  const rateHz = crossings / 2 / duration;
+  const depthCents = Math.SQRT2 * Math.sqrt(mean(residual.map(r => r * r)));
+  // Outside the usual 3~9 Hz band (or too shallow) it's wobble or noise, not vibrato
+  if (rateHz < 3 || rateHz > 9 || depthCents < 5) return null;
+  return { rateHz, depthCents };
+};
+
+export const analyzeTake = (samples: PitchSample[], temperament: TemperamentSetting = EQUAL, options?: SegmentOptions): IntonationReport => {
+  const segments = segmentNotes(samples, options, temperament);
+  const notes: NoteAnalysis[] = segments.map(seg => ({
+    label: midiLabel(seg.midi),
+    start: seg.start,
+    duration: seg.end - seg.start,
+    meanCents: mean(seg.cents),
+    vibrato: detectVibrato(seg),
+  }));
+
+  const byName = new Map<string, number[]>();
+  segments.forEach((seg, i) => {
+    const name = NOTE_STRINGS[((seg.midi % 12) + 12) % 12];
+    byName.set(name, [...(byName.get(name) ?? []), notes[i].meanCents]);
+  });
+  const byNoteName: NoteNameStats[] = NOTE_STRINGS
+    .filter(name => byName.has(name))
+    .map(name => {
+      const cents = byName.get(name)!;
+      return { name, count: cents.length, meanCents: mean(cents), stdCents: std(cents) };
+    });
+
+  const points = notes.map(n => ({ time: n.start + n.duration / 2, cents: n.meanCents }));
+  const centsPerMinute = points.length >= 2 ? linearFit(points.map(p => p.time), points.map(p => p.cents)).slope * 60 : 0;
+
+  const withVibrato = notes.filter(n => n.vibrato).map(n => n.vibrato!);
+  const vibrato = withVibrato.length > 0
+    ? { rateHz: mean(withVibrato.map(v => v.rateHz)), depthCents: mean(withVibrato.map(v => v.depthCents)) }
+    : null;
+
+  return {
+    duration: samples.length > 0 ? samples[samples.length - 1].time - samples[0].time : 0,
+    notes,
+    byNoteName,
+    drift: { centsPerMinute, points },
+    vibrato,
+    worst: [...byNoteName].sort((a, b) => Math.abs(b.meanCents) - Math.abs(a.meanCents)).slice(0, 3),
+  };
+};
+
+// ── Export ────────────────────────────────────────────────────────────────
+
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+export const reportToCsv = (report: IntonationReport): string => {
+  const rows = [['start_s', 'duration_s', 'note', 'mean_cents', 'vibrato_hz', 'vibrato_depth_cents']];
+  report.notes.forEach(n => rows.push([
+    n.start.toFixed(3), n.duration.toFixed(3), n.label, String(round1(n.meanCents)),
+    n.vibrato ? String(round1(n.vibrato.rateHz)) : '', n.vibrato ? String(round1(n.vibrato.depthCents)) : '',
+  ]));
+  return rows.map(r => r.join(',')).join('\n');
+};
+
+export const reportToJson = (report: IntonationReport): string => JSON.stringify(report, null, 2);
+
+export const downloadText = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
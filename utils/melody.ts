@@ -0,0 +1,132 @@
+
+import { MelodyNote, MelodyQuestion, MelodyRhythm, SCALE_INTERVALS, ScaleType } from '../types';
+
+// ── Melodic dictation ─────────────────────────────────────────────────────
+
+export interface MelodyRange {
+  id: string;
+  label: string;
+  low: number;   // MIDI
+  high: number;
+}
+
+export const MELODY_RANGES: MelodyRange[] = [
+  { id: 'treble', label: 'C4–C5', low: 60, high: 72 },
+  { id: 'wide', label: 'G3–E5', low: 55, high: 76 },
+  { id: 'bass', label: 'C3–C4', low: 48, high: 60 },
+];
+
+export const MELODY_RHYTHMS: { id: MelodyRhythm; label: string }[] = [
+  { id: 'even', label: '全四分音符' },
+  { id: 'simple', label: '四分 + 八分' },
+  { id: 'dotted', label: '含附點' },
+];
+
+export interface MelodySettings {
+  scale: ScaleType;
+  length: number;
+  range: MelodyRange;
+  rhythm: MelodyRhythm;
+}
+
+export type Clef = 'treble' | 'bass';
+
+const BEATS_PER_BAR = 4;
+const FLAT_TONICS = [1, 3, 5, 8, 10];   // Db Eb F Ab Bb read better with flats
+const RHYTHM_CELLS: Record<MelodyRhythm, number[][]> = {
+  even: [[1]],
+  simple: [[1], [1], [0.5, 0.5], [2]],
+  dotted: [[1], [0.5, 0.5], [1.5, 0.5], [2]],
+};
+const NOTATED_LENGTHS = [0.5, 1, 1.5, 2, 3, 4];
+const STEP_WEIGHTS = [-3, -2, -2, -1, -1, -1, 1, 1, 1, 2, 2, 3];
+
+const pick = <T,>(xs: T[]): T => xs[Math.floor(Math.random() * xs.length)];
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+// Durations for `length` notes built from whole rhythm cells that never cross a bar line.
+// The last note is stretched to the end of its bar when that length can be notated.
+const buildRhythm = (length: number, rhythm: MelodyRhythm): number[] => {
+  const beats: number[] = [];
+  let pos = 0;
+  while (beats.length < length) {
+    const room = BEATS_PER_BAR - (pos % BEATS_PER_BAR);
+    const left = length - beats.length;
+    const fits = RHYTHM_CELLS[rhythm].filter(c => c.length <= left && c.reduce((a, b) => a + b, 0) <= room);
+    const cell = fits.length > 0 ? pick(fits) : [Math.min(1, room)];
+    cell.forEach(b => { beats.push(b); pos += b; });
+  }
+  const lastStart = pos - beats[beats.length - 1];
+  const toBarEnd = BEATS_PER_BAR - (lastStart % BEATS_PER_BAR);
+  if (NOTATED_LENGTHS.includes(toBarEnd)) beats[beats.length - 1] = toBarEnd;
+  return beats;
+};
+
+// Random walk over the scale tones in range, mostly by step, starting on the tonic or fifth and ending on the tonic
+export const generateMelody = (s: MelodySettings): MelodyQuestion => {
+  const offsets = SCALE_INTERVALS[s.scale].filter(i => i < 12);
+  const tonicPc = Math.floor(Math.random() * 12);
+  const pool: number[] = [];
+  for (let m = s.range.low; m <= s.range.high; m++) if (offsets.includes(mod12(m - tonicPc))) pool.push(m);
+
+  const anchors = pool.map((m, i) => ({ m, i })).filter(({ m }) => [0, 7].includes(mod12(m - tonicPc)));
+  let idx = pick(anchors).i;
+  const pitches = [pool[idx]];
+  while (pitches.length < s.length - 1) {
+    idx += pick(STEP_WEIGHTS);
+    if (idx < 0) idx = -idx;
+    if (idx >= pool.length) idx = 2 * (pool.length - 1) - idx;
+    pitches.push(pool[idx]);
+  }
+  if (s.length > 1) {
+    const tonics = pool.filter(m => mod12(m - tonicPc) === 0);
+    const prev = pitches[pitches.length - 1];
+    pitches.push(tonics.reduce((best, m) => (Math.abs(m - prev) < Math.abs(best - prev) ? m : best)));
+  }
+
+  const beats = buildRhythm(s.length, s.rhythm);
+  return {
+    tonic: s.range.low - mod12(s.range.low - tonicPc),
+    scale: s.scale,
+    notes: pitches.map((midi, i): MelodyNote => ({ midi, beats: beats[i] })),
+    preferFlats: FLAT_TONICS.includes(tonicPc),
+  };
+};
+
+// Tonic triad of the question's scale, for setting the key before the melody
+export const cadenceChord = (q: MelodyQuestion): number[] => {
+  const offsets = SCALE_INTERVALS[q.scale];
+  const third = offsets.includes(4) ? 4 : offsets.includes(3) ? 3 : offsets[2];
+  const fifth = offsets.includes(7) ? 7 : offsets[4] ?? 7;
+  return [q.tonic, q.tonic + third, q.tonic + fifth];
+};
+
+export const clefFor = (range: MelodyRange): Clef => (range.low < 55 ? 'bass' : 'treble');
+
+// Per-note correctness of the entered pitches
+export const gradeMelody = (q: MelodyQuestion, answer: (number | null)[]): boolean[] =>
+  q.notes.map((n, i) => answer[i] === n.midi);
+
+// ── Staff spelling ────────────────────────────────────────────────────────
+
+// Pitch class → [letter index C=0..B=6, accidental]
+const SHARP_SPELLING: [number, number][] = [[0, 0], [0, 1], [1, 0], [1, 1], [2, 0], [3, 0], [3, 1], [4, 0], [4, 1], [5, 0], [5, 1], [6, 0]];
+const FLAT_SPELLING: [number, number][] = [[0, 0], [1, -1], [1, 0], [2, -1], [2, 0], [3, 0], [4, -1], [4, 0], [5, -1], [5, 0], [6, -1], [6, 0]];
+const NATURAL_PCS = [0, 2, 4, 5, 7, 9, 11];
+
+export interface StaffSpelling {
+  step: number;        // diatonic step count from C-1 (C4 = 35)
+  accidental: number;  // -1 flat, 0 natural, 1 sharp
+}
+
+export const spellMidi = (midi: number, preferFlats: boolean): StaffSpelling => {
+  const [letter, accidental] = (preferFlats ? FLAT_SPELLING : SHARP_SPELLING)[mod12(midi)];
+  // B# / Cb never occur in these tables, so the octave follows the MIDI number directly
+  return { step: (Math.floor(midi / 12)) * 7 + letter, accidental };
+};
+
+export const stepToMidi = (step: number, accidental: number = 0): number =>
+  Math.floor(step / 7) * 12 + NATURAL_PCS[((step % 7) + 7) % 7] + accidental;
+
+// Diatonic step of the bottom staff line (treble E4, bass G2)
+export const CLEF_BOTTOM_STEP: Record<Clef, number> = { treble: 37, bass: 25 };
@@ -0,0 +1,78 @@
+
+import { getAudioContext } from './audioEngine';
+import { createPersistedSettings } from './persistedSettings';
+
+// ── Shared microphone input ───────────────────────────────────────────────
+//
+// Every listening feature opens the mic through here so they all honour the same device choice and
+// processing flags. Browser defaults (echo cancellation, noise suppression, AGC) smear pitch and level
+// readings, so they start switched off.
+
+export interface MicSettings {
+  deviceId: string | null; // null = system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface MicDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface MicInput {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  close: () => void;
+}
+
+const STORAGE_KEY = 'earlessly-mic';
+const DEFAULT_SETTINGS: MicSettings = { deviceId: null, echoCancellation: false, noiseSuppression: false, autoGainControl: false };
+
+const store = createPersistedSettings<MicSettings>(STORAGE_KEY, DEFAULT_SETTINGS);
+
+export const getMicSettings = (): MicSettings => ({ ...store.get() });
+
+export const setMicSettings = (patch: Partial<MicSettings>) => store.set(patch);
+
+// Fires when the device or processing flags change, so active listeners can reopen the mic
+export const subscribeMicSettings = store.subscribe;
+
+// Labels stay empty until the page has been granted mic permission once
+export const listMicDevices = async (): Promise<MicDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'audioinput')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `麥克風 ${i + 1}` }));
+};
+
+const buildConstraints = (s: MicSettings, withDevice: boolean): MediaTrackConstraints => ({
+  ...(withDevice && s.deviceId ? { deviceId: { exact: s.deviceId } } : {}),
+  echoCancellation: s.echoCancellation,
+  noiseSuppression: s.noiseSuppression,
+  autoGainControl: s.autoGainControl,
+  channelCount: 1,
+});
+
+export const openMicInput = async (ctx: AudioContext = getAudioContext()): Promise<MicInput> => {
+  const settings = store.get();
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: buildConstraints(settings, true) });
+  } catch (err) {
+    // The saved device was unplugged: fall back to the default input
+    if (!settings.deviceId || (err as DOMException).name !== 'OverconstrainedError' && (err as DOMException).name !== 'NotFoundError') throw err;
+    stream = await navigator.mediaDevices.getUserMedia({ audio: buildConstraints(settings, false) });
+  }
+  if (ctx.state === 'suspended') await ctx.resume();
+  const source = ctx.createMediaStreamSource(stream);
+  return {
+    stream,
+    source,
+    close: () => {
+      source.disconnect();
+      stream.getTracks().forEach(t => t.stop());
+    },
+  };
+};
@@ -0,0 +1,84 @@
+
+import { describe, it, expect } from 'vitest';
+import { connectMidiInput, MidiEvent } from './midiInput';
+
+// Minimal stand-ins for the Web MIDI objects connectMidiInput touches
+
+type Handler = (e: { data: Uint8Array }) => void;
+
+class FakeInput {
+  handlers = new Set<Handler>();
+  state: MIDIPortDeviceState = 'connected';
+  constructor(public id: string, public name: string) {}
+  addEventListener(_type: string, h: Handler) { this.handlers.add(h); }
+  removeEventListener(_type: string, h: Handler) { this.handlers.delete(h); }
+  send(...bytes: number[]) { this.handlers.forEach(h => h({ data: new Uint8Array(bytes) })); }
+}
+
+class FakeAccess {
+  inputs = new Map<string, FakeInput>();
+  stateHandlers = new Set<() => void>();
+  addEventListener(_type: string, h: () => void) { this.stateHandlers.add(h); }
+  removeEventListener(_type: string, h: () => void) { this.stateHandlers.delete(h); }
+  plug(input: FakeInput) {
+    this.inputs.set(input.id, input);
+    this.stateHandlers.forEach(h => h());
+  }
+}
+
+const connect = async (access: FakeAccess, onInputsChange?: (inputs: string[]) => void) => {
+  const events: MidiEvent[] = [];
+  const conn = await connectMidiInput(e => events.push(e), onInputsChange, async () => access as unknown as MIDIAccess);
+  return { events, conn };
+};
+
+describe('connectMidiInput', () => {
+  it('translates note and sustain messages from every input', async () => {
+    const access = new FakeAccess();
+    const keys = new FakeInput('a', 'Keys');
+    access.inputs.set('a', keys);
+    const { events, conn } = await connect(access);
+    expect(conn.inputs).toEqual(['Keys']);
+
+    keys.send(0x90, 60, 127);   // note on, channel 1
+    keys.send(0x93, 64, 64);    // note on, channel 4
+    keys.send(0x80, 60, 40);    // note off
+    keys.send(0x90, 64, 0);     // note on with velocity 0
+    keys.send(0xb0, 64, 127);   // sustain down
+    keys.send(0xb0, 64, 0);     // sustain up
+    keys.send(0xb0, 7, 100);    // volume CC: ignored
+    keys.send(0xf8);            // clock: ignored
+
+    expect(events).toEqual([
+      { type: 'noteon', note: 60, velocity: 1 },
+      { type: 'noteon', note: 64, velocity: 64 / 127 },
+      { type: 'noteoff', note: 60 },
+      { type: 'noteoff', note: 64 },
+      { type: 'sustain', on: true },
+      { type: 'sustain', on: false },
+    ]);
+  });
+
+  it('attaches to inputs plugged in later and stops after disconnect', async () => {
+    const access = new FakeAccess();
+    const changes: string[][] = [];
+    const { events, conn } = await connect(access, inputs => changes.push(inputs));
+    expect(conn.inputs).toEqual([]);
+
+    const pads = new FakeInput('b', 'Pads');
+    access.plug(pads);
+    expect(changes).toEqual([['Pads']]);
+    pads.send(0x99, 36, 100);
+    expect(events).toEqual([{ type: 'noteon', note: 36, velocity: 100 / 127 }]);
+
+    conn.disconnect();
+    pads.send(0x99, 38, 100);
+    expect(events).toHaveLength(1);
+    expect(pads.handlers.size).toBe(0);
+    expect(access.stateHandlers.size).toBe(0);
+  });
+
+  it('rejects when Web MIDI is unavailable', async () => {
+    await expect(connectMidiInput(() => {}, undefined, undefined)).rejects.toThrow();
+  });
+});
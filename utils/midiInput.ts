@@ -0,0 +1,73 @@
+
+// ── Web MIDI input ────────────────────────────────────────────────────────
+
+export type MidiEvent =
+  | { type: 'noteon'; note: number; velocity: number }   // velocity 0~1
+  | { type: 'noteoff'; note: number }
+  | { type: 'sustain'; on: boolean };                      // CC64
+
+export interface MidiConnection {
+  inputs: string[];       // names of the currently connected input ports
+  disconnect: () => void;
+}
+
+type RequestMIDIAccess = (options?: MIDIOptions) => Promise<MIDIAccess>;
+
+export const isMidiSupported = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+
+// Decodes a raw MIDI message; returns null for anything we don't handle
+export const parseMidiMessage = (data: ArrayLike<number> | null): MidiEvent | null => {
+  if (!data || data.length < 2) return null;
+  const status = data[0] & 0xf0;
+  const d1 = data[1];
+  const d2 = data.length > 2 ? data[2] : 0;
+  if (status === 0x90 && d2 > 0) return { type: 'noteon', note: d1, velocity: d2 / 127 };
+  // Note-on with velocity 0 is the running-status form of note-off
+  if (status === 0x80 || status === 0x90) return { type: 'noteoff', note: d1 };
+  if (status === 0xb0 && d1 === 64) return { type: 'sustain', on: d2 >= 64 };
+  return null;
+};
+
+// Listens on every MIDI input (including ones plugged in later).
+// `requestAccess` can be injected for testing with a mocked MIDIAccess.
+export const connectMidiInput = async (
+  onEvent: (event: MidiEvent) => void,
+  onInputsChange?: (inputs: string[]) => void,
+  requestAccess: RequestMIDIAccess | undefined = isMidiSupported() ? navigator.requestMIDIAccess.bind(navigator) : undefined
+): Promise<MidiConnection> => {
+  if (!requestAccess) throw new Error('此瀏覽器不支援 Web MIDI');
+  const access = await requestAccess({ sysex: false });
+
+  const handleMessage = (e: MIDIMessageEvent) => {
+    const event = parseMidiMessage(e.data);
+    if (event) onEvent(event);
+  };
+
+  const attached = new Set<MIDIInput>();
+  const listInputs = () => Array.from(access.inputs.values()).filter(i => i.state !== 'disconnected').map(i => i.name || i.id);
+  const attachAll = () => {
+    access.inputs.forEach(input => {
+      if (attached.has(input)) return;
+      input.addEventListener('midimessage', handleMessage);
+      attached.add(input);
+    });
+  };
+
+  const handleStateChange = () => {
+    attachAll();
+    onInputsChange?.(listInputs());
+  };
+
+  attachAll();
+  access.addEventListener('statechange', handleStateChange);
+
+  return {
+    inputs: listInputs(),
+    disconnect: () => {
+      access.removeEventListener('statechange', handleStateChange);
+      attached.forEach(input => input.removeEventListener('midimessage', handleMessage));
+      attached.clear();
+    },
+  };
+};
@@ -0,0 +1,37 @@
+
+// ── Persisted settings store ──────────────────────────────────────────────
+//
+// A module-level settings object saved to localStorage as JSON. Stored values are merged over the
+// defaults on load, so settings added later pick up their default.
+
+export interface PersistedSettings<T extends object> {
+  get: () => T;
+  set: (patch: Partial<T>) => void;                    // merges, saves, then notifies
+  subscribe: (listener: () => void) => (() => void);   // returns an unsubscribe function
+  notify: () => void;                                  // for state the owner keeps beside the settings
+}
+
+export const createPersistedSettings = <T extends object>(key: string, defaults: T): PersistedSettings<T> => {
+  let settings: T = (() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(key) ?? 'null') as Partial<T> | null;
+      return { ...defaults, ...(stored ?? {}) };
+    } catch { return { ...defaults }; }
+  })();
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach(l => l());
+
+  return {
+    get: () => settings,
+    set: patch => {
+      settings = { ...settings, ...patch };
+      try { localStorage.setItem(key, JSON.stringify(settings)); } catch { /* storage unavailable */ }
+      notify();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    notify,
+  };
+};
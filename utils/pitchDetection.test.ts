@@ -0,0 +1,70 @@
+
+import { describe, it, expect } from 'vitest';
+import { yin, mpm, detectPitch, PitchAlgorithm } from './pitchDetection';
+
+// Synthetic buffers across the tuner's range, graded in cents against the generating frequency
+
+const SAMPLE_RATE = 44100;
+const WINDOW = 4096;   // ~93 ms, a few periods even at 40 Hz
+const FREQUENCIES = [40, 55, 82.41, 110, 196, 261.63, 440, 659.26, 880, 1318.51, 2000];
+
+// Deterministic noise so a failure reproduces
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 0x100000000;
+};
+
+const sine = (freq: number): Float32Array =>
+  Float32Array.from({ length: WINDOW }, (_, i) => 0.5 * Math.sin(2 * Math.PI * freq * i / SAMPLE_RATE));
+
+// Band-limited sawtooth: harmonics up to Nyquist with 1/k amplitude
+const sawtooth = (freq: number): Float32Array => {
+  const buf = new Float32Array(WINDOW);
+  const harmonics = Math.floor(SAMPLE_RATE / 2 / freq);
+  for (let k = 1; k <= harmonics; k++) {
+    for (let i = 0; i < WINDOW; i++) buf[i] += 0.3 * Math.sin(2 * Math.PI * k * freq * i / SAMPLE_RATE) / k;
+  }
+  return buf;
+};
+
+// Sine with white noise about 20 dB below the signal
+const noisy = (freq: number): Float32Array => {
+  const rand = seededRandom(Math.round(freq * 100));
+  return sine(freq).map(v => v + (rand() * 2 - 1) * 0.087);
+};
+
+const cents = (detected: number, expected: number) => 1200 * Math.log2(detected / expected);
+
+const SIGNALS: { name: string; make: (freq: number) => Float32Array; tolerance: number }[] = [
+  { name: 'sine', make: sine, tolerance: 5 },
+  { name: 'sawtooth', make: sawtooth, tolerance: 5 },
+  { name: 'noisy sine', make: noisy, tolerance: 10 },
+];
+
+describe.each([
+  { name: 'yin', detect: yin },
+  { name: 'mpm', detect: mpm },
+])('$name', ({ detect }) => {
+  describe.each(SIGNALS)('$name', ({ make, tolerance }) => {
+    it.each(FREQUENCIES)('%d Hz', freq => {
+      const result = detect(make(freq), SAMPLE_RATE);
+      expect(result.frequency).toBeGreaterThan(0);
+      expect(Math.abs(cents(result.frequency, freq))).toBeLessThan(tolerance);
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+  });
+});
+
+describe('detectPitch', () => {
+  it.each<PitchAlgorithm>(['yin', 'mpm'])('dispatches to %s and reports rms', algorithm => {
+    const frame = detectPitch(sine(440), SAMPLE_RATE, 0.01, algorithm);
+    expect(Math.abs(cents(frame.frequency, 440))).toBeLessThan(5);
+    expect(frame.rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('reports no pitch below the rms threshold', () => {
+    const frame = detectPitch(new Float32Array(WINDOW), SAMPLE_RATE, 0.01, 'mpm');
+    expect(frame.frequency).toBe(-1);
+    expect(frame.confidence).toBe(0);
+  });
+});
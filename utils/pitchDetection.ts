@@ -0,0 +1,171 @@
+
+import { autoCorrelate } from './audioEngine';
+
+// ── Pitch detection backends ──────────────────────────────────────────────
+//
+// yin() and mpm() are deliberately self-contained (no references outside the function body)
+// so their source can also be shipped into an AudioWorklet.
+
+export type PitchAlgorithm = 'autocorrelate' | 'yin' | 'mpm';
+
+export interface PitchResult {
+  frequency: number;  // Hz, -1 when no pitch was found
+  confidence: number; // 0~1 (YIN: 1 - aperiodicity, MPM: clarity)
+}
+
+export interface PitchFrame extends PitchResult {
+  rms: number;
+}
+
+export const PITCH_ALGORITHMS: { id: PitchAlgorithm; label: string; desc: string }[] = [
+  { id: 'mpm', label: 'MPM', desc: 'McLeod 音高法，反應快、適合人聲與樂器' },
+  { id: 'yin', label: 'YIN', desc: '低音較穩定，較不易跳八度' },
+  { id: 'autocorrelate', label: '自相關', desc: '原始演算法，運算量最低' },
+];
+
+// YIN (de Cheveigné & Kawahara 2002): cumulative-mean-normalised difference function
+export function yin(buf: Float32Array, sampleRate: number, threshold: number = 0.15, minFreq: number = 40, maxFreq: number = 2500): PitchResult {
+  const half = Math.floor(buf.length / 2);
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFreq));
+  const tauMax = Math.min(half - 1, Math.ceil(sampleRate / minFreq));
+  if (tauMax <= tauMin) return { frequency: -1, confidence: 0 };
+
+  const d = new Float32Array(tauMax + 2);
+  for (let tau = 1; tau <= tauMax + 1; tau++) {
+    let sum = 0;
+    for (let i = 0; i < half; i++) {
+      const delta = buf[i] - buf[i + tau];
+      sum += delta * delta;
+    }
+    d[tau] = sum;
+  }
+
+  // Normalise: d'(tau) = d(tau) * tau / sum_{j<=tau} d(j)
+  d[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= tauMax + 1; tau++) {
+    running += d[tau];
+    d[tau] = running > 0 ? d[tau] * tau / running : 1;
+  }
+
+  // Lowest point of the first dip under the threshold (the whole dip, so noise ripples on its slope don't stop us early)
+  let tau = -1;
+  for (let t = tauMin; t <= tauMax; t++) {
+    if (d[t] < threshold) {
+      tau = t;
+      while (t + 1 <= tauMax && d[t + 1] < threshold) {
+        t++;
+        if (d[t] < d[tau]) tau = t;
+      }
+      break;
+    }
+  }
+  // No clear dip: fall back to the global minimum if it is still reasonably periodic
+  if (tau === -1) {
+    let best = tauMin;
+    for (let t = tauMin + 1; t <= tauMax; t++) if (d[t] < d[best]) best = t;
+    if (d[best] > 0.35) return { frequency: -1, confidence: Math.max(0, 1 - d[best]) };
+    tau = best;
+  }
+
+  // Parabolic interpolation for sub-sample accuracy
+  let refined = tau;
+  if (tau > 1 && tau < tauMax + 1) {
+    const a = d[tau - 1], b = d[tau], c = d[tau + 1];
+    const denom = a - 2 * b + c;
+    if (Math.abs(denom) > 1e-12) refined = tau + (a - c) / (2 * denom);
+  }
+  return { frequency: sampleRate / refined, confidence: Math.max(0, Math.min(1, 1 - d[tau])) };
+}
+
+// McLeod Pitch Method (McLeod & Wyvill 2005): normalised square difference function with key-maximum picking
+export function mpm(buf: Float32Array, sampleRate: number, cutoff: number = 0.93, minFreq: number = 40, maxFreq: number = 2500): PitchResult {
+  const n = buf.length;
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFreq));
+  const tauMax = Math.min(n - 2, Math.ceil(sampleRate / minFreq));
+  if (tauMax <= tauMin) return { frequency: -1, confidence: 0 };
+
+  const nsdf = new Float32Array(tauMax + 2);
+  for (let tau = 0; tau <= tauMax + 1; tau++) {
+    let acf = 0;
+    let energy = 0;
+    for (let i = 0; i < n - tau; i++) {
+      acf += buf[i] * buf[i + tau];
+      energy += buf[i] * buf[i] + buf[i + tau] * buf[i + tau];
+    }
+    nsdf[tau] = energy > 0 ? 2 * acf / energy : 0;
+  }
+
+  // Key maxima: the highest point between each positive-going and negative-going zero crossing
+  const peaks: number[] = [];
+  let t = 1;
+  while (t <= tauMax && nsdf[t] > 0) t++;           // skip the lag-0 lobe
+  while (t <= tauMax) {
+    while (t <= tauMax && nsdf[t] <= 0) t++;
+    let best = -1;
+    while (t <= tauMax && nsdf[t] > 0) {
+      if (best === -1 || nsdf[t] > nsdf[best]) best = t;
+      t++;
+    }
+    // A lobe cut off while still rising at tauMax has no maximum in range; its edge would extrapolate wildly
+    if (best > 0 && nsdf[best] >= nsdf[best + 1]) peaks.push(best);
+  }
+  const candidates = peaks.filter(p => p >= tauMin);
+  if (candidates.length === 0) return { frequency: -1, confidence: 0 };
+
+  // Compare interpolated peak heights: at high pitches the true peak falls between samples,
+  // and the raw value of the first period can dip below a later one, causing an octave error
+  const refine = (p: number) => {
+    const a = nsdf[p - 1], b = nsdf[p], c = nsdf[p + 1];
+    const denom = a - 2 * b + c;
+    if (Math.abs(denom) < 1e-12) return { tau: p, value: b };
+    const shift = (a - c) / (2 * denom);
+    return { tau: p + shift, value: b - (a - c) * shift / 4 };
+  };
+  const refinedPeaks = candidates.map(refine);
+  const highest = Math.max(...refinedPeaks.map(p => p.value));
+  const threshold = cutoff * highest;
+  const chosen = refinedPeaks.find(p => p.value >= threshold)!;
+  const refined = chosen.tau;
+  const clarity = chosen.value;
+  if (clarity < 0.5) return { frequency: -1, confidence: Math.max(0, clarity) };
+  return { frequency: sampleRate / refined, confidence: Math.max(0, Math.min(1, clarity)) };
+}
+
+export const computeRms = (buf: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < buf.length; i++) sum += buf[i] * buf[i];
+  return Math.sqrt(sum / buf.length);
+};
+
+// ── Selection (shared by Tuner, vocal / singing modes) ────────────────────
+
+const STORAGE_KEY = 'earlessly-pitch-algorithm';
+
+let currentAlgorithm: PitchAlgorithm = (() => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as PitchAlgorithm | null;
+    return stored && PITCH_ALGORITHMS.some(a => a.id === stored) ? stored : 'mpm';
+  } catch { return 'mpm'; }
+})();
+
+export const getPitchAlgorithm = (): PitchAlgorithm => currentAlgorithm;
+
+export const setPitchAlgorithm = (algorithm: PitchAlgorithm) => {
+  currentAlgorithm = algorithm;
+  try { localStorage.setItem(STORAGE_KEY, algorithm); } catch { /* storage unavailable */ }
+};
+
+export const detectPitch = (
+  buf: Float32Array,
+  sampleRate: number,
+  rmsThreshold: number = 0.01,
+  algorithm: PitchAlgorithm = currentAlgorithm
+): PitchFrame => {
+  const rms = computeRms(buf);
+  if (rms < rmsThreshold) return { frequency: -1, confidence: 0, rms };
+  if (algorithm === 'yin') return { ...yin(buf, sampleRate), rms };
+  if (algorithm === 'mpm') return { ...mpm(buf, sampleRate), rms };
+  const frequency = autoCorrelate(buf, sampleRate, rmsThreshold);
+  return { frequency, confidence: frequency > 0 ? 1 : 0, rms };
+};
@@ -0,0 +1,200 @@
+
+import { autoCorrelate } from './audioEngine';
+import { PitchAlgorithm, PitchFrame, yin, mpm, detectPitch, getPitchAlgorithm } from './pitchDetection';
+
+// ── Streaming pitch tracker ───────────────────────────────────────────────
+//
+// Runs detection inside an AudioWorklet so it keeps a steady frame rate (also in background tabs)
+// and doesn't compete with React for the main thread. Browsers without AudioWorklet fall back to
+// an AnalyserNode polled from requestAnimationFrame.
+
+export interface TrackerFrame extends PitchFrame {
+  time: number; // AudioContext time (s) at the end of the analysed window
+}
+
+export interface PitchTrackerOptions {
+  windowSize?: number;    // samples at the context rate; larger windows track lower notes
+  hopSize?: number;       // samples between frames
+  rmsThreshold?: number;
+  algorithm?: PitchAlgorithm;
+}
+
+export interface PitchTracker {
+  readonly mode: 'worklet' | 'analyser';
+  setRmsThreshold: (threshold: number) => void;
+  setAlgorithm: (algorithm: PitchAlgorithm) => void;
+  stop: () => void;
+}
+
+const DEFAULT_WINDOW = 4096; // ~85ms @ 48kHz, enough for the low E of a bass
+const DEFAULT_HOP = 1024;    // ~47 frames/s @ 48kHz
+const FALLBACK_INTERVAL_MS = 80;
+const PROCESSOR_NAME = 'earlessly-pitch-tracker';
+
+// The detectors are self-contained, so their compiled source is inlined into the worklet module.
+// Above 32kHz the window is decimated by 2 (pairwise average) to keep the per-frame cost well
+// inside the audio thread's budget; that still leaves ~12kHz of bandwidth for a 2.5kHz ceiling.
+const buildProcessorSource = () => `
+const yin = (${yin.toString()});
+const mpm = (${mpm.toString()});
+const autoCorrelate = (${autoCorrelate.toString()});
+
+class PitchTrackerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions || {};
+    this.windowSize = opts.windowSize;
+    this.hopSize = opts.hopSize;
+    this.rmsThreshold = opts.rmsThreshold;
+    this.algorithm = opts.algorithm;
+    this.decimate = sampleRate > 32000 ? 2 : 1;
+    this.ring = new Float32Array(this.windowSize);
+    this.window = new Float32Array(Math.floor(this.windowSize / this.decimate));
+    this.writePos = 0;
+    this.filled = 0;
+    this.sinceLast = 0;
+    this.port.onmessage = (e) => {
+      if (e.data.rmsThreshold !== undefined) this.rmsThreshold = e.data.rmsThreshold;
+      if (e.data.algorithm !== undefined) this.algorithm = e.data.algorithm;
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.ring[this.writePos] = channel[i];
+      this.writePos = (this.writePos + 1) % this.windowSize;
+    }
+    this.filled = Math.min(this.windowSize, this.filled + channel.length);
+    this.sinceLast += channel.length;
+    if (this.filled < this.windowSize || this.sinceLast < this.hopSize) return true;
+    this.sinceLast = 0;
+    this.analyse();
+    return true;
+  }
+
+  analyse() {
+    const d = this.decimate;
+    let sum = 0;
+    for (let i = 0; i < this.window.length; i++) {
+      let v = 0;
+      for (let k = 0; k < d; k++) v += this.ring[(this.writePos + i * d + k) % this.windowSize];
+      v /= d;
+      this.window[i] = v;
+      sum += v * v;
+    }
+    const rms = Math.sqrt(sum / this.window.length);
+    const rate = sampleRate / d;
+    let frequency = -1;
+    let confidence = 0;
+    if (rms >= this.rmsThreshold) {
+      if (this.algorithm === 'yin' || this.algorithm === 'mpm') {
+        const r = this.algorithm === 'yin' ? yin(this.window, rate) : mpm(this.window, rate);
+        frequency = r.frequency;
+        confidence = r.confidence;
+      } else {
+        frequency = autoCorrelate(this.window, rate, this.rmsThreshold);
+        confidence = frequency > 0 ? 1 : 0;
+      }
+    }
+    this.port.postMessage({ frequency, confidence, rms, time: currentTime });
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PitchTrackerProcessor);
+`;
+
+const registered = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const registerProcessor = (ctx: AudioContext): Promise<void> => {
+  let pending = registered.get(ctx);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([buildProcessorSource()], { type: 'application/javascript' }));
+    pending = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    // Let a later call retry if registration failed
+    pending.catch(() => registered.delete(ctx));
+    registered.set(ctx, pending);
+  }
+  return pending;
+};
+
+const startWorkletTracker = async (
+  ctx: AudioContext, source: AudioNode, onFrame: (frame: TrackerFrame) => void,
+  windowSize: number, hopSize: number, rmsThreshold: number, algorithm: PitchAlgorithm
+): Promise<PitchTracker> => {
+  await registerProcessor(ctx);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { windowSize, hopSize, rmsThreshold, algorithm },
+  });
+  node.port.onmessage = (e: MessageEvent<TrackerFrame>) => onFrame(e.data);
+  source.connect(node);
+  return {
+    mode: 'worklet',
+    setRmsThreshold: threshold => node.port.postMessage({ rmsThreshold: threshold }),
+    setAlgorithm: algo => node.port.postMessage({ algorithm: algo }),
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch { /* already disconnected */ }
+      node.port.close();
+    },
+  };
+};
+
+const startAnalyserTracker = (
+  ctx: AudioContext, source: AudioNode, onFrame: (frame: TrackerFrame) => void,
+  windowSize: number, rmsThreshold: number, algorithm: PitchAlgorithm
+): PitchTracker => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = Math.min(32768, windowSize);
+  const buffer = new Float32Array(analyser.fftSize);
+  source.connect(analyser);
+
+  let rafId: number | null = null;
+  let lastDetect = 0;
+  const loop = (now: number) => {
+    rafId = requestAnimationFrame(loop);
+    if (now - lastDetect < FALLBACK_INTERVAL_MS) return;
+    lastDetect = now;
+    analyser.getFloatTimeDomainData(buffer);
+    onFrame({ ...detectPitch(buffer, ctx.sampleRate, rmsThreshold, algorithm), time: ctx.currentTime });
+  };
+  rafId = requestAnimationFrame(loop);
+
+  return {
+    mode: 'analyser',
+    setRmsThreshold: threshold => { rmsThreshold = threshold; },
+    setAlgorithm: algo => { algorithm = algo; },
+    stop: () => {
+      if (rafId !== null) cancelAnimationFrame(rafId);
+      rafId = null;
+      try { source.disconnect(analyser); } catch { /* already disconnected */ }
+    },
+  };
+};
+
+// Starts streaming pitch frames for `source`. The caller still owns the source / media stream.
+export const startPitchTracker = async (
+  ctx: AudioContext,
+  source: AudioNode,
+  onFrame: (frame: TrackerFrame) => void,
+  options: PitchTrackerOptions = {}
+): Promise<PitchTracker> => {
+  const windowSize = options.windowSize ?? DEFAULT_WINDOW;
+  const hopSize = options.hopSize ?? DEFAULT_HOP;
+  const rmsThreshold = options.rmsThreshold ?? 0.01;
+  const algorithm = options.algorithm ?? getPitchAlgorithm();
+
+  if (typeof AudioWorkletNode !== 'undefined' && ctx.audioWorklet) {
+    try {
+      return await startWorkletTracker(ctx, source, onFrame, windowSize, hopSize, rmsThreshold, algorithm);
+    } catch (err) {
+      console.warn('AudioWorklet pitch tracker unavailable, falling back to AnalyserNode', err);
+    }
+  }
+  return startAnalyserTracker(ctx, source, onFrame, windowSize, rmsThreshold, algorithm);
+};
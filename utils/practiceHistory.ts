@@ -0,0 +1,172 @@
+
+import { PracticeAttempt, TrainerMode } from '../types';
+
+// ── IndexedDB helpers (practice history persistence) ──────────────────────
+
+const DB_NAME = 'earlessly-history';
+const DB_STORE = 'attempts';
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(DB_STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('trainer', 'trainer');
+      store.createIndex('timestamp', 'timestamp');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function recordAttempt(attempt: Omit<PracticeAttempt, 'id' | 'timestamp'>): Promise<void> {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(DB_STORE, 'readwrite');
+    tx.objectStore(DB_STORE).add({ ...attempt, timestamp: Date.now() });
+    db.close();
+  } catch (e) {
+    console.error('recordAttempt error:', e);
+  }
+}
+
+// Rejects if IndexedDB is unavailable (private mode, blocked upgrade) or the read fails
+export async function loadAttempts(trainer?: TrainerMode): Promise<PracticeAttempt[]> {
+  const db = await openDB();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(DB_STORE, 'readonly');
+      const store = tx.objectStore(DB_STORE);
+      const req = trainer ? store.index('trainer').getAll(trainer) : store.getAll();
+      req.onsuccess = () => resolve((req.result as PracticeAttempt[]).sort((a, b) => a.timestamp - b.timestamp));
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Resolves once the clear has been committed
+export async function clearHistory(): Promise<void> {
+  const db = await openDB();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(DB_STORE, 'readwrite');
+      tx.objectStore(DB_STORE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ── Statistics ────────────────────────────────────────────────────────────
+
+export interface TrainerSummary {
+  total: number;
+  correct: number;
+  accuracy: number;       // 0~1
+  avgResponseMs: number;
+  lastPracticed: number;  // timestamp, 0 if never
+}
+
+export const summarizeAttempts = (attempts: PracticeAttempt[]): Partial<Record<TrainerMode, TrainerSummary>> => {
+  const result: Partial<Record<TrainerMode, TrainerSummary>> = {};
+  const responseSums: Partial<Record<TrainerMode, number>> = {};
+  for (const a of attempts) {
+    const s = result[a.trainer] ?? { total: 0, correct: 0, accuracy: 0, avgResponseMs: 0, lastPracticed: 0 };
+    s.total++;
+    if (a.correct) s.correct++;
+    s.lastPracticed = Math.max(s.lastPracticed, a.timestamp);
+    responseSums[a.trainer] = (responseSums[a.trainer] ?? 0) + a.responseMs;
+    result[a.trainer] = s;
+  }
+  (Object.keys(result) as TrainerMode[]).forEach(t => {
+    const s = result[t]!;
+    s.accuracy = s.correct / s.total;
+    s.avgResponseMs = (responseSums[t] ?? 0) / s.total;
+  });
+  return result;
+};
+
+export interface WeeklyBucket {
+  weekStart: number; // timestamp of Monday 00:00 (local time)
+  total: number;
+  correct: number;
+}
+
+const startOfWeek = (ts: number): number => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+// Buckets attempts into the last `weeks` calendar weeks (oldest first), including empty weeks
+export const weeklyProgress = (attempts: PracticeAttempt[], weeks: number = 8): WeeklyBucket[] => {
+  const current = startOfWeek(Date.now());
+  const buckets: WeeklyBucket[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const d = new Date(current);
+    d.setDate(d.getDate() - i * 7);
+    buckets.push({ weekStart: d.getTime(), total: 0, correct: 0 });
+  }
+  for (const a of attempts) {
+    const bucket = buckets.find(b => b.weekStart === startOfWeek(a.timestamp));
+    if (!bucket) continue;
+    bucket.total++;
+    if (a.correct) bucket.correct++;
+  }
+  return buckets;
+};
+
+// ── Confusion / Weakness Analytics ────────────────────────────────────────
+
+export interface ConfusionMatrix {
+  labels: string[];
+  counts: number[][]; // counts[expectedIdx][responseIdx]
+}
+
+// Rows are the correct item, columns what the user answered. Labels not in `order` are appended in first-seen order.
+export const buildConfusionMatrix = (attempts: PracticeAttempt[], order: string[] = []): ConfusionMatrix => {
+  const labels = [...order];
+  const indexOf = (label: string) => {
+    let idx = labels.indexOf(label);
+    if (idx === -1) { labels.push(label); idx = labels.length - 1; }
+    return idx;
+  };
+  const pairs = attempts.map(a => [indexOf(a.expected), indexOf(a.response)] as const);
+  const counts = labels.map(() => new Array(labels.length).fill(0));
+  pairs.forEach(([e, r]) => { counts[e][r]++; });
+  return { labels, counts };
+};
+
+export interface ItemStat {
+  item: string;
+  total: number;
+  correct: number;
+  errorRate: number;        // 0~1
+  mostConfusedWith: string | null;
+}
+
+// Per-item accuracy, weakest first
+export const itemWeakness = (attempts: PracticeAttempt[]): ItemStat[] => {
+  const map = new Map<string, { total: number; correct: number; wrong: Map<string, number> }>();
+  for (const a of attempts) {
+    const entry = map.get(a.expected) ?? { total: 0, correct: 0, wrong: new Map<string, number>() };
+    entry.total++;
+    if (a.correct) entry.correct++;
+    else entry.wrong.set(a.response, (entry.wrong.get(a.response) ?? 0) + 1);
+    map.set(a.expected, entry);
+  }
+  return Array.from(map.entries())
+    .map(([item, e]) => {
+      let mostConfusedWith: string | null = null;
+      let max = 0;
+      e.wrong.forEach((n, resp) => { if (n > max) { max = n; mostConfusedWith = resp; } });
+      return { item, total: e.total, correct: e.correct, errorRate: 1 - e.correct / e.total, mostConfusedWith };
+    })
+    .sort((a, b) => b.errorRate - a.errorRate || b.total - a.total);
+};
@@ -0,0 +1,154 @@
+
+import { ProgressionDef } from '../types';
+
+// ── Roman-numeral parser ──────────────────────────────────────────────────
+//
+// Accepts classical / pop analysis symbols: an optional ♭/♯ (borrowed chords, measured against the
+// major scale as in `PROGRESSIONS`), a numeral whose case sets major / minor, a quality mark
+// (°, ø, +, maj), a figure (7, 9, 6, 64, 65, 43, 42), an optional sus2 / sus4 and a /target for
+// secondary functions. "I - vi7 - ii7 - V7/V - V7 - I", "i - bVI - bIII - bVII", "ii65 - V43/V - V".
+
+export interface NumeralError {
+  index: number;    // position of the chord in the progression (0-based)
+  token: string;
+  message: string;
+}
+
+export interface ParsedProgression {
+  numerals: string[];
+  degrees: number[][];   // semitone offsets from the tonic, bass first
+  errors: NumeralError[];
+}
+
+export const MAX_PROGRESSION_LENGTH = 16;
+
+const NUMERAL_RE = /^([b#♭♯]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(.*)$/;
+const NUMERAL_SEMITONES: Record<string, number> = { I: 0, II: 2, III: 4, IV: 5, V: 7, VI: 9, VII: 11 };
+const SEPARATORS = /[\s,|–—-]+/;
+
+type Mark = 'maj' | 'dim' | 'hdim' | 'aug' | null;
+
+const MARKS: [string, Mark][] = [['maj', 'maj'], ['M', 'maj'], ['Δ', 'maj'], ['°', 'dim'], ['o', 'dim'], ['ø', 'hdim'], ['+', 'aug']];
+const FIGURES = ['64', '65', '43', '42', '7', '9', '6'];
+const TRIAD_FIGURES: Record<string, number> = { '': 0, '6': 1, '64': 2 };
+const SEVENTH_FIGURES: Record<string, number> = { '7': 0, '65': 1, '43': 2, '42': 3 };
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+const accidentalOffset = (acc: string) => (acc === 'b' || acc === '♭' ? -1 : acc === '#' || acc === '♯' ? 1 : 0);
+
+const triadIntervals = (upper: boolean, mark: Mark, sus: string): number[] | string => {
+  if (sus) return sus === 'sus2' ? [0, 2, 7] : [0, 5, 7];
+  if (mark === 'dim') return upper ? '減和弦請用小寫級數（如 vii°）' : [0, 3, 6];
+  if (mark === 'aug') return upper ? [0, 4, 8] : '增和弦請用大寫級數（如 III+）';
+  if (mark === 'maj') return '「maj」需搭配 7 或 9（如 IVmaj7）';
+  if (mark === 'hdim') return '半減七和弦需用七和弦記號（ø7、ø65、ø43、ø42）';
+  return upper ? [0, 4, 7] : [0, 3, 7];
+};
+
+const seventhIntervals = (upper: boolean, mark: Mark, sus: string): number[] | string => {
+  if (sus) return sus === 'sus4' ? [0, 5, 7, 10] : [0, 2, 7, 10];
+  if (mark === 'dim') return upper ? '減和弦請用小寫級數（如 vii°7）' : [0, 3, 6, 9];
+  if (mark === 'hdim') return upper ? '半減和弦請用小寫級數（如 viiø7）' : [0, 3, 6, 10];
+  if (mark === 'aug') return upper ? [0, 4, 8, 10] : '增和弦請用大寫級數（如 V+7）';
+  if (mark === 'maj') return upper ? [0, 4, 7, 11] : [0, 3, 7, 11];
+  return upper ? [0, 4, 7, 10] : [0, 3, 7, 10];
+};
+
+// One chord symbol → bass-first degrees, or an error message
+export const parseNumeral = (token: string): { degrees: number[] } | { error: string } => {
+  const [head, target, extra] = token.split('/');
+  if (extra !== undefined) return { error: '只支援一層副功能（如 V7/V）' };
+
+  const m = NUMERAL_RE.exec(head);
+  if (!m) return { error: '不是有效的羅馬數字級數（I–VII 或 i–vii，可加 ♭ / ♯）' };
+  const [, acc, numeral] = m;
+  let rest = m[3];
+  const upper = numeral === numeral.toUpperCase();
+
+  let mark: Mark = null;
+  const markMatch = MARKS.find(([sym]) => rest.startsWith(sym));
+  if (markMatch) { mark = markMatch[1]; rest = rest.slice(markMatch[0].length); }
+  const figure = FIGURES.find(f => rest.startsWith(f)) ?? '';
+  rest = rest.slice(figure.length);
+  const sus = rest.startsWith('sus2') || rest.startsWith('sus4') ? rest.slice(0, 4) : '';
+  rest = rest.slice(sus.length);
+  if (rest) return { error: `後綴「${rest}」無法辨識，可用 7、9、maj7、°、ø、+、sus4、6、64、65、43、42` };
+
+  let intervals: number[] | string;
+  let inversion = 0;
+  if (figure in TRIAD_FIGURES && !(figure === '' && mark === 'hdim')) {
+    if (sus && figure) return { error: '掛留和弦不標示轉位' };
+    intervals = triadIntervals(upper, mark, sus);
+    inversion = TRIAD_FIGURES[figure];
+  } else if (figure === '9') {
+    const seventh = seventhIntervals(upper, mark, sus);
+    intervals = typeof seventh === 'string' ? seventh : [...seventh, 14];
+  } else {
+    if (sus && figure !== '7') return { error: '掛留和弦不標示轉位' };
+    intervals = seventhIntervals(upper, mark, sus);
+    inversion = SEVENTH_FIGURES[figure || '7'];
+  }
+  if (typeof intervals === 'string') return { error: intervals };
+
+  let root = NUMERAL_SEMITONES[numeral.toUpperCase()] + accidentalOffset(acc);
+  if (target !== undefined) {
+    const t = NUMERAL_RE.exec(target);
+    if (!t || t[3]) return { error: `副功能的目標級數「${target}」無效（如 V7/V、vii°7/ii）` };
+    root += NUMERAL_SEMITONES[t[2].toUpperCase()] + accidentalOffset(t[1]);
+  }
+
+  const tones = intervals.map(i => mod12(root) + i);
+  const rotated = [...tones.slice(inversion), ...tones.slice(0, inversion).map(n => n + 12)];
+  const octave = Math.floor(rotated[0] / 12) * 12;
+  return { degrees: rotated.map(n => n - octave) };
+};
+
+// Whole progression, separated by spaces, commas, dashes or bar lines; collects every error
+export const parseProgression = (text: string): ParsedProgression => {
+  const numerals = text.split(SEPARATORS).filter(Boolean);
+  const degrees: number[][] = [];
+  const errors: NumeralError[] = [];
+  numerals.forEach((token, index) => {
+    const parsed = parseNumeral(token);
+    if ('error' in parsed) errors.push({ index, token, message: parsed.error });
+    else degrees.push(parsed.degrees);
+  });
+  if (numerals.length < 2) errors.push({ index: -1, token: '', message: '請至少輸入兩個和弦' });
+  if (numerals.length > MAX_PROGRESSION_LENGTH) errors.push({ index: -1, token: '', message: `最多 ${MAX_PROGRESSION_LENGTH} 個和弦` });
+  return { numerals, degrees, errors };
+};
+
+// ── Custom progressions (localStorage) ────────────────────────────────────
+
+const CUSTOM_KEY = 'earlessly-progressions';
+
+export const getCustomProgressions = (): ProgressionDef[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_KEY) ?? '[]') as ProgressionDef[];
+    return Array.isArray(raw) ? raw.filter(p => p && typeof p.id === 'string' && Array.isArray(p.degrees) && p.degrees.length > 0) : [];
+  } catch { return []; }
+};
+
+const writeCustomProgressions = (progs: ProgressionDef[]) => {
+  try { localStorage.setItem(CUSTOM_KEY, JSON.stringify(progs)); } catch { /* storage unavailable */ }
+};
+
+// Creates or replaces (same id) a custom progression from already-validated numerals
+export const saveCustomProgression = (label: string, parsed: ParsedProgression, id?: string): ProgressionDef => {
+  const numeralLabel = parsed.numerals.join(' - ');
+  const prog: ProgressionDef = {
+    id: id ?? `custom-${Date.now().toString(36)}`,
+    label: label.trim() || numeralLabel,
+    romanNumerals: parsed.numerals,
+    degrees: parsed.degrees,
+    custom: true,
+  };
+  const others = getCustomProgressions().filter(p => p.id !== prog.id);
+  writeCustomProgressions([...others, prog]);
+  return prog;
+};
+
+export const deleteCustomProgression = (id: string) => {
+  writeCustomProgressions(getCustomProgressions().filter(p => p.id !== id));
+};
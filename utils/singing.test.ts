@@ -0,0 +1,31 @@
+
+import { describe, it, expect } from 'vitest';
+import { gradeSinging } from './singing';
+import { SingingQuestion } from '../types';
+import { PitchSample } from './intonationAnalysis';
+
+// One second held on a MIDI note, sampled every 20 ms
+const hold = (midi: number, start: number = 0): PitchSample[] =>
+  Array.from({ length: 50 }, (_, i) => ({ time: start + i * 0.02, frequency: 440 * Math.pow(2, (midi - 69) / 12), rms: 0.1 }));
+
+describe('gradeSinging', () => {
+  const fifthUp: SingingQuestion = { task: 'interval', prompt: [60], targets: [67], onsets: [0], label: 'C4 ↑ P5' };
+
+  it('grades interval answers at the written pitch', () => {
+    expect(gradeSinging(fifthUp, hold(67), 0.5)).toMatchObject({ score: 100, octaveShift: 0 });
+  });
+
+  it('does not pass the octave inversion of the interval', () => {
+    const result = gradeSinging(fifthUp, hold(55), 0.5);   // G3: a fourth down
+    expect(result.score).toBe(0);
+    expect(result.octaveShift).toBe(0);
+    expect(result.notes[0].cents).toBeCloseTo(-1200);
+  });
+
+  it('lets echo melodies be sung in another octave', () => {
+    const echo: SingingQuestion = { task: 'echo', prompt: [60, 62], targets: [60, 62], onsets: [0, 1.3], label: '' };
+    const result = gradeSinging(echo, [...hold(48), ...hold(50, 1.3)], 1.3);
+    expect(result.octaveShift).toBe(-1);
+    expect(result.score).toBe(100);
+  });
+});
@@ -0,0 +1,123 @@
+
+import { IntervalQuality, INTERVAL_SEMITONES, SCALE_INTERVALS, ScaleType, SingingDirection, SingingNoteResult, SingingQuestion, SingingResult, SingingTask } from '../types';
+import { PitchSample, segmentNotes } from './intonationAnalysis';
+import { midiLabel } from './tunings';
+
+// ── Sing-back questions and grading ───────────────────────────────────────
+
+export interface VoiceRange {
+  id: string;
+  label: string;
+  low: number;   // MIDI
+  high: number;
+}
+
+export const VOICE_RANGES: VoiceRange[] = [
+  { id: 'low', label: '低音域', low: 43, high: 64 },   // G2–E4
+  { id: 'mid', label: '中音域', low: 50, high: 71 },   // D3–B4
+  { id: 'high', label: '高音域', low: 57, high: 79 },  // A3–G5
+];
+
+export interface SingingSettings {
+  task: SingingTask;
+  direction: SingingDirection;
+  intervals: IntervalQuality[];
+  melodyLength: number;
+  range: VoiceRange;
+  noteGap: number;   // seconds between melody notes
+}
+
+const PASS_CENTS = 100;        // a semitone off scores zero
+const PITCH_WEIGHT = 0.7;      // echo: the rest of the note score is timing
+export const PASS_SCORE = 70;
+
+const randInt = (lo: number, hi: number) => lo + Math.floor(Math.random() * (hi - lo + 1));
+
+// Random walk over the major scale from the tonic, mostly steps with the odd third
+const buildMelody = (length: number, range: VoiceRange): number[] => {
+  const scale = SCALE_INTERVALS[ScaleType.MAJOR].slice(0, 7);
+  const degreeToSemis = (d: number) => 12 * Math.floor(d / 7) + scale[((d % 7) + 7) % 7];
+  const tonic = randInt(range.low, range.high - 12);
+  const degrees = [[0, 2, 4][randInt(0, 2)]];
+  while (degrees.length < length) {
+    const prev = degrees[degrees.length - 1];
+    const step = [-2, -1, -1, 1, 1, 2][randInt(0, 5)];
+    degrees.push(Math.max(0, Math.min(7, prev + step)));
+  }
+  return degrees.map(d => tonic + degreeToSemis(d));
+};
+
+export const buildSingingQuestion = (s: SingingSettings): SingingQuestion => {
+  if (s.task === 'echo') {
+    const melody = buildMelody(s.melodyLength, s.range);
+    return {
+      task: 'echo',
+      prompt: melody,
+      targets: melody,
+      onsets: melody.map((_, i) => i * s.noteGap),
+      label: `${melody.length} 音旋律（${midiLabel(melody[0])} 起）`,
+    };
+  }
+  const pool = s.intervals.length > 0 ? s.intervals : [IntervalQuality.P5];
+  const quality = pool[randInt(0, pool.length - 1)];
+  const semis = INTERVAL_SEMITONES[quality];
+  const down = s.direction === 'down' || (s.direction === 'both' && Math.random() < 0.5);
+  // Keep both the reference and the sung note inside the voice range
+  const reference = down ? randInt(s.range.low + semis, s.range.high) : randInt(s.range.low, s.range.high - semis);
+  const target = down ? reference - semis : reference + semis;
+  return {
+    task: 'interval',
+    prompt: [reference],
+    targets: [target],
+    onsets: [0],
+    label: `${midiLabel(reference)} ${down ? '↓' : '↑'} ${quality}`,
+  };
+};
+
+const median = (xs: number[]) => {
+  const sorted = [...xs].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Number of sung notes found so far, for live progress while listening
+export const countSungNotes = (samples: PitchSample[]): number => segmentNotes(samples, { minDuration: 0.15, maxGap: 0.12 }).length;
+
+// Matches the sung notes to the targets in order and scores pitch (and, for echo, timing).
+// Echo pitch is judged modulo the octave the singer settled in, so any voice type can answer. Interval
+// targets are graded as written: the reference already sits in the chosen range, and folding octaves
+// would pass the inversion (a fourth down for a fifth up).
+export const gradeSinging = (question: SingingQuestion, samples: PitchSample[], noteGap: number): SingingResult => {
+  let segments = segmentNotes(samples, { minDuration: 0.15, maxGap: 0.12 });
+  if (question.task === 'interval') {
+    // Scoops and breaths can split the note; the longest piece is the one that was held
+    segments = segments.length > 0 ? [segments.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a))] : [];
+  } else {
+    // Drop the shortest extra pieces until the count matches, keeping the order
+    while (segments.length > question.targets.length) {
+      const shortest = segments.reduce((best, seg, i) => (seg.end - seg.start < segments[best].end - segments[best].start ? i : best), 0);
+      segments = segments.filter((_, i) => i !== shortest);
+    }
+  }
+
+  const sung = segments.map(seg => seg.midi + median(seg.cents) / 100);
+  const offsets = sung.map((p, i) => p - question.targets[i]);
+  const octaveShift = question.task === 'echo' && offsets.length > 0 ? Math.round(median(offsets) / 12) : 0;
+  const firstOnset = segments[0]?.start ?? 0;
+
+  const notes: SingingNoteResult[] = question.targets.map((target, i) => {
+    const seg = segments[i];
+    if (!seg) return { target, sung: null, cents: null, timingError: null, score: 0 };
+    const cents = (sung[i] - target - 12 * octaveShift) * 100;
+    const pitchScore = Math.max(0, 100 * (1 - Math.abs(cents) / PASS_CENTS));
+    if (question.task === 'interval') return { target, sung: sung[i], cents, timingError: null, score: Math.round(pitchScore) };
+    const timingError = seg.start - firstOnset - question.onsets[i];
+    const timingScore = Math.max(0, 100 * (1 - Math.abs(timingError) / noteGap));
+    return { target, sung: sung[i], cents, timingError, score: Math.round(PITCH_WEIGHT * pitchScore + (1 - PITCH_WEIGHT) * timingScore) };
+  });
+
+  return {
+    notes,
+    score: Math.round(notes.reduce((sum, n) => sum + n.score, 0) / notes.length),
+    octaveShift,
+  };
+};
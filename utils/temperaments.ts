@@ -0,0 +1,110 @@
+
+import { TunerData } from '../types';
+import { NOTE_STRINGS, frequencyToMidi } from './audioEngine';
+
+// ── Temperaments ──────────────────────────────────────────────────────────
+//
+// Each temperament is a table of 12 deviations (cents) from equal temperament, built on C.
+// A chosen tonic transposes the table; the tonic itself always sits on its equal-tempered pitch
+// (so the A4 reference still anchors the whole system).
+
+export type TemperamentId = 'equal' | 'pythagorean' | 'meantone' | 'werckmeister3' | 'vallotti' | 'just';
+
+export interface TemperamentSetting {
+  id: TemperamentId;
+  tonic: number; // pitch class 0~11 (C = 0)
+}
+
+const PURE_FIFTH = 1200 * Math.log2(3 / 2);
+const PYTHAGOREAN_COMMA = 12 * PURE_FIFTH - 7 * 1200;
+const SYNTONIC_COMMA = 1200 * Math.log2(81 / 80);
+
+// Builds a table from the chain of fifths Eb-Bb-F-C-G-D-A-E-B-F#-C#-G#.
+// `fifths` gives the size of the 11 fifths in that order (Eb→Bb first, C#→G# last).
+const fromFifths = (fifths: number[]): number[] => {
+  const deviations = new Array<number>(12).fill(0);
+  const C_INDEX = 3;
+  let pos = 0;
+  for (let k = C_INDEX; k < 11; k++) {                 // up from C: G D A E B F# C# G#
+    pos += fifths[k];
+    const pc = (7 * (k + 1 - C_INDEX)) % 12;
+    deviations[pc] = ((pos % 1200) + 1200) % 1200 - pc * 100;
+  }
+  pos = 0;
+  for (let k = C_INDEX - 1; k >= 0; k--) {             // down from C: F Bb Eb
+    pos -= fifths[k];
+    const pc = ((7 * (k - C_INDEX)) % 12 + 12) % 12;
+    deviations[pc] = ((pos % 1200) + 1200) % 1200 - pc * 100;
+  }
+  return deviations;
+};
+
+const fromRatios = (ratios: number[]): number[] => ratios.map((r, pc) => 1200 * Math.log2(r) - pc * 100);
+
+// Indices into the fifth chain: 0 Eb-Bb, 1 Bb-F, 2 F-C, 3 C-G, 4 G-D, 5 D-A, 6 A-E, 7 E-B, 8 B-F#, 9 F#-C#, 10 C#-G#
+const tempered = (narrowed: number[], by: number) =>
+  Array.from({ length: 11 }, (_, i) => narrowed.includes(i) ? PURE_FIFTH - by : PURE_FIFTH);
+
+const TABLES: Record<TemperamentId, number[]> = {
+  equal: new Array<number>(12).fill(0),
+  pythagorean: fromFifths(tempered([], 0)),
+  meantone: fromFifths(tempered([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10], SYNTONIC_COMMA / 4)),
+  werckmeister3: fromFifths(tempered([3, 4, 5, 8], PYTHAGOREAN_COMMA / 4)),
+  vallotti: fromFifths(tempered([2, 3, 4, 5, 6, 7], PYTHAGOREAN_COMMA / 6)),
+  just: fromRatios([1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8]),
+};
+
+export const TEMPERAMENTS: { id: TemperamentId; label: string; desc: string }[] = [
+  { id: 'equal', label: '十二平均律', desc: '現代標準調律，各調通用' },
+  { id: 'pythagorean', label: '畢達哥拉斯', desc: '純五度相生，G#–E♭ 為狼五度' },
+  { id: 'meantone', label: '1/4 音差中全音律', desc: '純大三度，文藝復興與早期巴洛克' },
+  { id: 'werckmeister3', label: 'Werckmeister III', desc: '良律，四個五度各窄 1/4 最大音差' },
+  { id: 'vallotti', label: 'Vallotti', desc: '良律，F 到 B 六個五度各窄 1/6 最大音差' },
+  { id: 'just', label: '5 限純律', desc: '以主音為基準的純音程比例' },
+];
+
+// Deviation from equal temperament (cents) of `pitchClass` with the table transposed to `tonic`
+export const temperamentOffset = (setting: TemperamentSetting, pitchClass: number): number =>
+  TABLES[setting.id][((pitchClass - setting.tonic) % 12 + 12) % 12];
+
+// Like getNoteFromFrequency, but the nearest note and the cents are measured against the temperament.
+// Cents are left unrounded so callers (e.g. the strobe display) keep sub-cent resolution.
+export const getNoteInTemperament = (frequency: number, setting: TemperamentSetting): TunerData => {
+  const exact = frequencyToMidi(frequency);
+  let bestMidi = Math.round(exact);
+  let bestDiff = Infinity;
+  for (let midi = Math.round(exact) - 1; midi <= Math.round(exact) + 1; midi++) {
+    const target = midi + temperamentOffset(setting, ((midi % 12) + 12) % 12) / 100;
+    if (Math.abs(exact - target) < Math.abs(bestDiff)) {
+      bestDiff = exact - target;
+      bestMidi = midi;
+    }
+  }
+  return {
+    note: NOTE_STRINGS[((bestMidi % 12) + 12) % 12],
+    octave: Math.floor(bestMidi / 12) - 1,
+    cents: bestDiff * 100,
+    frequency,
+    isSilent: false,
+  };
+};
+
+// ── Selection ─────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'earlessly-temperament';
+const DEFAULT_SETTING: TemperamentSetting = { id: 'equal', tonic: 0 };
+
+let current: TemperamentSetting = (() => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as TemperamentSetting | null;
+    if (stored && stored.id in TABLES && Number.isInteger(stored.tonic) && stored.tonic >= 0 && stored.tonic < 12) return stored;
+  } catch { /* ignore corrupt data */ }
+  return DEFAULT_SETTING;
+})();
+
+export const getTemperament = (): TemperamentSetting => current;
+
+export const setTemperament = (setting: TemperamentSetting) => {
+  current = setting;
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(setting)); } catch { /* storage unavailable */ }
+};
@@ -0,0 +1,90 @@
+
+import { NOTE_STRINGS, frequencyToMidi } from './audioEngine';
+
+// ── Instrument tunings ────────────────────────────────────────────────────
+
+export interface Tuning {
+  id: string;
+  label: string;
+  group: string;
+  strings: number[]; // MIDI notes, lowest-numbered string first as the player reads them
+  custom?: boolean;
+}
+
+export const TUNING_PRESETS: Tuning[] = [
+  { id: 'guitar-standard', group: '吉他', label: '標準 (EADGBE)', strings: [40, 45, 50, 55, 59, 64] },
+  { id: 'guitar-half-down', group: '吉他', label: '降半音 (E♭)', strings: [39, 44, 49, 54, 58, 63] },
+  { id: 'guitar-drop-d', group: '吉他', label: 'Drop D', strings: [38, 45, 50, 55, 59, 64] },
+  { id: 'guitar-drop-c', group: '吉他', label: 'Drop C', strings: [36, 43, 48, 53, 57, 62] },
+  { id: 'guitar-dadgad', group: '吉他', label: 'DADGAD', strings: [38, 45, 50, 55, 57, 62] },
+  { id: 'guitar-open-g', group: '吉他', label: 'Open G', strings: [38, 43, 50, 55, 59, 62] },
+  { id: 'guitar-open-d', group: '吉他', label: 'Open D', strings: [38, 45, 50, 54, 57, 62] },
+  { id: 'bass-4', group: '貝斯', label: '4 弦 (EADG)', strings: [28, 33, 38, 43] },
+  { id: 'bass-5', group: '貝斯', label: '5 弦 (BEADG)', strings: [23, 28, 33, 38, 43] },
+  { id: 'violin', group: '弦樂', label: '小提琴', strings: [55, 62, 69, 76] },
+  { id: 'viola', group: '弦樂', label: '中提琴', strings: [48, 55, 62, 69] },
+  { id: 'cello', group: '弦樂', label: '大提琴', strings: [36, 43, 50, 57] },
+  { id: 'ukulele', group: '烏克麗麗', label: '標準 (GCEA)', strings: [67, 60, 64, 69] },
+  { id: 'ukulele-low-g', group: '烏克麗麗', label: 'Low G', strings: [55, 60, 64, 69] },
+];
+
+export const CUSTOM_GROUP = '自訂';
+export const MAX_STRINGS = 8;
+
+export const midiLabel = (midi: number) => `${NOTE_STRINGS[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+// Nearest target string and the (unrounded) deviation from it; `cents` can exceed ±50 when the string is far off
+export const nearestString = (frequency: number, tuning: Tuning): { index: number; cents: number } => {
+  const exact = frequencyToMidi(frequency);
+  let index = 0;
+  tuning.strings.forEach((midi, i) => {
+    if (Math.abs(exact - midi) < Math.abs(exact - tuning.strings[index])) index = i;
+  });
+  return { index, cents: (exact - tuning.strings[index]) * 100 };
+};
+
+// ── Custom tunings & selection (localStorage) ─────────────────────────────
+
+const CUSTOM_KEY = 'earlessly-tunings';
+const SELECTED_KEY = 'earlessly-tuner-tuning';
+
+export const getCustomTunings = (): Tuning[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_KEY) ?? '[]') as Tuning[];
+    return Array.isArray(raw) ? raw.filter(t => t && typeof t.id === 'string' && Array.isArray(t.strings) && t.strings.length > 0) : [];
+  } catch { return []; }
+};
+
+const writeCustomTunings = (tunings: Tuning[]) => {
+  try { localStorage.setItem(CUSTOM_KEY, JSON.stringify(tunings)); } catch { /* storage unavailable */ }
+};
+
+// Creates or replaces (same id) a custom tuning and returns it
+export const saveCustomTuning = (label: string, strings: number[], id?: string): Tuning => {
+  const tuning: Tuning = { id: id ?? `custom-${Date.now().toString(36)}`, label: label.trim() || '自訂調弦', group: CUSTOM_GROUP, strings, custom: true };
+  const others = getCustomTunings().filter(t => t.id !== tuning.id);
+  writeCustomTunings([...others, tuning]);
+  return tuning;
+};
+
+export const deleteCustomTuning = (id: string) => {
+  writeCustomTunings(getCustomTunings().filter(t => t.id !== id));
+  if (getSelectedTuningId() === id) setSelectedTuningId(null);
+};
+
+export const getAllTunings = (): Tuning[] => [...TUNING_PRESETS, ...getCustomTunings()];
+
+export const findTuning = (id: string | null): Tuning | null =>
+  id ? getAllTunings().find(t => t.id === id) ?? null : null;
+
+// null = chromatic mode
+export const getSelectedTuningId = (): string | null => {
+  try { return localStorage.getItem(SELECTED_KEY); } catch { return null; }
+};
+
+export const setSelectedTuningId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(SELECTED_KEY, id);
+    else localStorage.removeItem(SELECTED_KEY);
+  } catch { /* storage unavailable */ }
+};
@@ -0,0 +1,74 @@
+
+import { describe, it, expect } from 'vitest';
+import { voiceChord, voiceProgression, VoicingSettings } from './voicing';
+
+// Chords are spelled as semitone offsets from the tonic, bass first (as ProgressionDef.degrees)
+const ROOT_POSITION = [[0, 4, 7], [9, 12, 16], [5, 9, 12], [7, 11, 14, 17], [0, 4, 7]];   // I – vi – IV – V7 – I
+const INVERTED = [[0, 4, 7], [4, 7, 12], [5, 9, 12], [2, 5, 7, 11], [0, 4, 7]];           // I – I6 – IV – V43 – I
+
+const settings = (style: VoicingSettings['style'], separateBass: boolean, inversions: VoicingSettings['inversions']): VoicingSettings =>
+  ({ style, separateBass, inversions });
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+describe('voiceProgression', () => {
+  it.each([
+    ['close', true, 'written', [[-12, 12, 16, 19, 24], [-15, 9, 12, 16, 21], [-7, 5, 9, 12, 17], [-5, 7, 11, 14, 17], [-12, 12, 16, 19, 24]]],
+    ['close', true, 'smooth', [[-12, 12, 16, 19, 24], [-12, 9, 12, 16, 21], [-12, 5, 9, 12, 17], [-13, 7, 11, 14, 17], [-12, 12, 16, 19, 24]]],
+    ['close', false, 'written', [[0, 4, 7, 12], [-3, 0, 4, 9], [5, 9, 12, 17], [7, 11, 14, 17], [12, 16, 19, 24]]],
+    ['close', false, 'smooth', [[0, 4, 7, 12], [-3, 0, 4, 9], [5, 9, 12, 17], [5, 7, 11, 14], [0, 4, 7, 12]]],
+    ['open', true, 'written', [[-12, 4, 12, 19, 24], [-15, 4, 9, 21, 24], [-7, 5, 9, 17, 24], [-5, 7, 11, 17, 26], [-12, 7, 12, 16, 24]]],
+    ['open', true, 'smooth', [[-12, 4, 12, 19, 24], [-12, 4, 9, 21, 24], [-12, 5, 9, 17, 24], [-13, 7, 11, 17, 26], [-12, 7, 12, 16, 24]]],
+    ['open', false, 'written', [[0, 4, 12, 19], [-3, 4, 12, 21], [5, 9, 17, 24], [7, 14, 17, 23], [0, 12, 16, 19]]],
+    ['open', false, 'smooth', [[0, 4, 12, 19], [-3, 4, 12, 21], [-3, 5, 12, 17], [-1, 7, 14, 17], [0, 7, 12, 16]]],
+    ['drop2', true, 'written', [[-12, 7, 12, 16, 24], [-15, 9, 12, 16, 21], [-7, 5, 12, 17, 21], [-5, 7, 14, 17, 23], [-12, 7, 12, 16, 24]]],
+    ['drop2', true, 'smooth', [[-12, 7, 12, 16, 24], [-12, 9, 12, 16, 21], [-12, 5, 12, 17, 21], [-13, 7, 14, 17, 23], [-12, 7, 12, 16, 24]]],
+    ['drop2', false, 'written', [[0, 7, 12, 16], [-3, 4, 9, 12], [5, 9, 12, 17], [7, 14, 17, 23], [12, 16, 19, 24]]],
+    ['drop2', false, 'smooth', [[0, 7, 12, 16], [4, 9, 12, 21], [5, 9, 12, 17], [2, 7, 11, 17], [0, 7, 12, 16]]],
+  ] as const)('I–vi–IV–V7–I, %s, separate bass %s, %s bass', (style, separateBass, inversions, expected) => {
+    expect(voiceProgression(ROOT_POSITION, settings(style, separateBass, inversions))).toEqual(expected);
+  });
+
+  it.each([
+    ['close', true, [[-12, 12, 16, 19, 24], [-8, 16, 19, 24, 28], [-7, 5, 9, 12, 17], [-10, 7, 11, 14, 17], [-12, 12, 16, 19, 24]]],
+    ['close', false, [[0, 4, 7, 12], [4, 7, 12, 16], [5, 9, 12, 17], [2, 5, 7, 11], [0, 4, 7, 12]]],
+    ['open', true, [[-12, 4, 12, 19, 24], [-8, 4, 12, 19, 28], [-7, 5, 9, 17, 24], [-10, 5, 11, 19, 26], [-12, 4, 12, 19, 24]]],
+    ['drop2', false, [[0, 7, 12, 16], [4, 7, 12, 16], [5, 9, 12, 17], [2, 7, 11, 17], [0, 7, 12, 16]]],
+  ] as const)('written inversions keep the spelled bass, %s, separate bass %s', (style, separateBass, expected) => {
+    const voiced = voiceProgression(INVERTED, settings(style, separateBass, 'written'));
+    expect(voiced).toEqual(expected);
+    voiced.forEach((v, i) => expect(mod12(v[0])).toBe(mod12(INVERTED[i][0])));
+  });
+
+  it('smooth inversions move the bass to a nearer chord tone', () => {
+    const voiced = voiceProgression(INVERTED, settings('close', true, 'smooth'));
+    expect(voiced.map(v => v[0])).toEqual([-12, -12, -12, -10, -12]);
+  });
+
+  it('is deterministic and keeps every chord tone', () => {
+    const s = settings('open', true, 'written');
+    expect(voiceProgression(ROOT_POSITION, s)).toEqual(voiceProgression(ROOT_POSITION, s));
+    voiceProgression(ROOT_POSITION, s).forEach((v, i) => {
+      expect(new Set(v.map(mod12))).toEqual(new Set(ROOT_POSITION[i].map(mod12)));
+    });
+  });
+});
+
+describe('voiceChord', () => {
+  it('voices a lone chord in drop 2', () => {
+    expect(voiceChord([0, 4, 7], settings('drop2', true, 'written'))).toEqual([-12, 7, 12, 16, 24]);
+  });
+
+  it('leads from the previous voicing like voiceProgression does', () => {
+    const s = settings('close', true, 'written');
+    const [first, second] = voiceProgression(ROOT_POSITION, s);
+    expect(voiceChord(ROOT_POSITION[1], s, first)).toEqual(second);
+  });
+
+  it('keeps every tone of extended chords', () => {
+    const thirteenth = [0, 4, 7, 10, 14, 21];
+    const voiced = voiceChord(thirteenth, settings('close', true, 'written'));
+    expect(voiced[0]).toBe(-12);
+    expect(new Set(voiced.map(mod12))).toEqual(new Set(thirteenth.map(mod12)));
+  });
+});
@@ -0,0 +1,143 @@
+
+import { createPersistedSettings } from './persistedSettings';
+
+// ── Chord voicing ─────────────────────────────────────────────────────────
+//
+// Turns chord spellings (semitone offsets from the progression root, bass first) into voice-led
+// voicings: the upper voices move as little as possible from chord to chord, optionally over a
+// bass in its own register. Pure and deterministic — the same input always gives the same voicing.
+
+export type VoicingStyle = 'close' | 'open' | 'drop2';
+export type BassInversion = 'written' | 'smooth';
+
+export interface VoicingSettings {
+  style: VoicingStyle;
+  separateBass: boolean;      // bass an octave below the upper voices
+  inversions: BassInversion;  // written = bass as spelled; smooth = nearest chord tone to the previous bass
+}
+
+export const VOICING_STYLES: { id: VoicingStyle; label: string }[] = [
+  { id: 'close', label: '密集' },
+  { id: 'open', label: '開放' },
+  { id: 'drop2', label: 'Drop 2' },
+];
+
+export const BASS_INVERSIONS: { id: BassInversion; label: string }[] = [
+  { id: 'written', label: '依級數' },
+  { id: 'smooth', label: '平滑低音' },
+];
+
+const STORAGE_KEY = 'earlessly-voicing';
+const DEFAULT_SETTINGS: VoicingSettings = { style: 'close', separateBass: true, inversions: 'written' };
+
+// Registers relative to the progression root (C3–B3)
+const UPPER_WITH_BASS = { low: 0, high: 28, center: 14 };
+const UPPER_ALONE = { low: -5, high: 24, center: 9 };
+const BASS_RANGE = { low: -15, high: -3, center: -9 };
+const DRIFT_WEIGHT = 0.25;       // pulls the voicing back towards the register centre
+const SMOOTH_BASS_PENALTY = 2;   // semitones a smooth bass must save before leaving the written bass
+
+const mod12 = (n: number) => ((n % 12) + 12) % 12;
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+// Root of a tertian chord: the pitch class with both a third and a fifth above it
+const findRoot = (pcs: number[], fallback: number): number =>
+  pcs.find(p => (pcs.includes(mod12(p + 3)) || pcs.includes(mod12(p + 4)))
+    && [6, 7, 8].some(i => pcs.includes(mod12(p + i)))) ?? fallback;
+
+// Upper-voice pitch classes: every chord tone, with the root doubled for triads so there are always four voices
+const upperPitchClasses = (chord: number[]): number[] => {
+  const pcs = Array.from(new Set<number>(chord.map(mod12)));
+  return pcs.length < 4 ? [...pcs, findRoot(pcs, mod12(chord[0]))] : pcs;
+};
+
+const placements = (pc: number, low: number, high: number): number[] => {
+  const out: number[] = [];
+  for (let n = low + mod12(pc - low); n <= high; n += 12) out.push(n);
+  return out;
+};
+
+const isClose = (v: number[]) => v[v.length - 1] - v[0] <= 12;
+
+const isDrop2 = (v: number[]) => {
+  if (v.length < 4) return false;
+  const raised = v[0] + 12;
+  const w = [...v.slice(1), raised].sort((a, b) => a - b);
+  return isClose(w) && w[w.length - 2] === raised;
+};
+
+const isOpen = (v: number[]) => {
+  const span = v[v.length - 1] - v[0];
+  return span > 12 && span <= 24 && v.every((n, i) => i === 0 || (n - v[i - 1] >= 3 && n - v[i - 1] <= 12));
+};
+
+const STYLE_TEST: Record<VoicingStyle, (v: number[]) => boolean> = { close: isClose, open: isOpen, drop2: isDrop2 };
+
+// Every unison-free arrangement of the pitch classes within the register, ascending
+const candidates = (pcs: number[], low: number, high: number): number[][] => {
+  let partial: number[][] = [[]];
+  pcs.forEach(pc => {
+    const next: number[][] = [];
+    partial.forEach(p => placements(pc, low, high).forEach(n => { if (!p.includes(n)) next.push([...p, n]); }));
+    partial = next;
+  });
+  const seen = new Set<string>();
+  return partial.map(v => [...v].sort((a, b) => a - b)).filter(v => {
+    const key = v.join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Total semitone movement; voices are paired in order, or to their nearest neighbour when the counts differ
+const movement = (prev: number[], next: number[]): number =>
+  prev.length === next.length
+    ? next.reduce((sum, n, i) => sum + Math.abs(n - prev[i]), 0)
+    : next.reduce((sum, n) => sum + Math.min(...prev.map(p => Math.abs(n - p))), 0);
+
+const chooseBass = (chord: number[], prev: number | null, s: VoicingSettings): number => {
+  const written = mod12(chord[0]);
+  const nearest = (pc: number, target: number) =>
+    placements(pc, BASS_RANGE.low, BASS_RANGE.high).reduce((best, n) => (Math.abs(n - target) < Math.abs(best - target) ? n : best));
+  if (prev === null || s.inversions === 'written') return nearest(written, prev ?? BASS_RANGE.center);
+  const options = Array.from(new Set<number>(chord.map(mod12))).map(pc => {
+    const n = nearest(pc, prev);
+    return { n, cost: Math.abs(n - prev) + (pc === written ? 0 : SMOOTH_BASS_PENALTY) };
+  });
+  return options.reduce((best, o) => (o.cost < best.cost ? o : best)).n;
+};
+
+// Voicing for one chord, led from the previous voicing (`null` for the first chord);
+// bass first, then the upper voices ascending
+export const voiceChord = (chord: number[], s: VoicingSettings, prev: number[] | null = null): number[] => {
+  const range = s.separateBass ? UPPER_WITH_BASS : UPPER_ALONE;
+  const prevUpper = prev && s.separateBass ? prev.slice(1) : prev;
+  const prevBass = prev && s.separateBass ? prev[0] : null;
+
+  const all = candidates(upperPitchClasses(chord), range.low, range.high);
+  // Without a separate bass the lowest upper voice is the bass, so written inversions constrain it
+  const inBass = s.separateBass || s.inversions === 'smooth'
+    ? all
+    : all.filter(v => mod12(v[0]) === mod12(chord[0]));
+  const styled = inBass.filter(STYLE_TEST[s.style]);
+  const pool = styled.length > 0 ? styled : inBass.filter(isClose).length > 0 ? inBass.filter(isClose) : inBass;
+
+  const cost = (v: number[]) => (prevUpper ? movement(prevUpper, v) : 0) + DRIFT_WEIGHT * Math.abs(mean(v) - range.center);
+  const upper = pool.reduce((best, v) => (cost(v) < cost(best) ? v : best));
+  return s.separateBass ? [chooseBass(chord, prevBass, s), ...upper] : upper;
+};
+
+// Voice-led voicings for a progression, each chord led from the one before
+export const voiceProgression = (chords: number[][], s: VoicingSettings): number[][] => {
+  let prev: number[] | null = null;
+  return chords.map(chord => (prev = voiceChord(chord, s, prev)));
+};
+
+// ── Settings ──────────────────────────────────────────────────────────────
+
+const store = createPersistedSettings<VoicingSettings>(STORAGE_KEY, DEFAULT_SETTINGS);
+
+export const getVoicingSettings = (): VoicingSettings => store.get();
+export const setVoicingSettings = (patch: Partial<VoicingSettings>) => store.set(patch);
+export const subscribeVoicing = store.subscribe;